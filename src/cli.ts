@@ -17,15 +17,21 @@
  *
  * # Parse and save to a file
  * rfc4512-parser --input schema.ldif --output result.json
+ *
+ * # Convert a cn=config LDIF file to a slapd.conf .schema file
+ * rfc4512-parser --input custom.ldif --format schema --output custom.schema
  * ```
  */
 
 import yargs from 'yargs'
 import { hideBin } from 'yargs/helpers'
-import { readFileSync, writeFileSync } from 'node:fs'
-import { parseSchema } from './functions'
+import { closeSync, createReadStream, createWriteStream, openSync, readSync } from 'node:fs'
+import { once } from 'node:events'
 import type { LDAPSchemaType } from './types'
-import { RFC4512ParserError } from './interfaces'
+import { RFC4512ParserError, type LDIFSchemaErrorInterface, type LDIFSchemaValueInterface } from './interfaces'
+import { OlcSchemaConfigReader, SchemaFileReader, SubschemaReader } from './readers'
+import RFC4512Parser from './rfc4512.parser'
+import { SchemaFileWriter } from './writers'
 import { logger } from './logger'
 
 /**
@@ -37,11 +43,26 @@ interface CliOptions {
   /** Path to the output file for results */
   output?: string
   /** Output format for results */
-  format: 'json' | 'pretty'
+  format: 'json' | 'pretty' | 'schema'
   /** Enable verbose mode for more details */
   verbose: boolean
 }
 
+/**
+ * A definition, objectIdentifier macro or error read from a text or .schema input
+ */
+interface TextValue {
+  /** Directive keyword, for .schema files */
+  keyword?: string
+  /** Line number of the value in the input (1-based indexing) */
+  line: number
+  /** Value text */
+  value: string
+  schema?: LDAPSchemaType
+  objectIdentifier?: { name: string; oid: string }
+  error?: RFC4512ParserError
+}
+
 /**
  * Format the parsing result for display
  *
@@ -51,10 +72,10 @@ interface CliOptions {
  *
  * @param result - The parsing result (null in case of error)
  * @param error - The error message (null in case of success)
- * @param format - The desired output format ('json' or 'pretty')
+ * @param format - The desired output format ('json', 'pretty' or 'schema')
  * @returns The formatted string ready to be displayed or saved
  */
-function formatResult(result: LDAPSchemaType | null, error: string | null, format: 'json' | 'pretty'): string {
+function formatResult(result: LDAPSchemaType | null, error: string | null, format: 'json' | 'pretty' | 'schema'): string {
   // JSON format: simple structure with success/error and data
   if (format === 'json') {
     if (error) {
@@ -68,20 +89,39 @@ function formatResult(result: LDAPSchemaType | null, error: string | null, forma
     return `❌ Parse Error: ${error}`
   }
 
-  const data = result!
-  let output = `✅ Parse Success\n\n`
+  if (format === 'schema') {
+    return formatSchemaFile([result!], {}, [])
+  }
+
+  return `✅ Parse Success\n\n${formatSchemaInformation(result!)}`
+}
+
+/**
+ * Format the information of one parsed schema definition for pretty display
+ *
+ * @param data - The parsed schema definition
+ * @param indent - Prefix added to every line, used to nest definitions under their LDIF entry
+ * @returns The formatted lines, each ending with a newline
+ */
+function formatSchemaInformation(data: LDAPSchemaType, indent = ''): string {
+  let output = ''
 
   // Basic schema information
   output += `📋 Schema Information:\n`
-  output += `  OID: ${data.oid}\n`
+  // DIT structure rules are identified by a rule ID instead of an OID
+  if (data.type === 'ditStructureRule') {
+    output += `  Rule ID: ${data.ruleId}\n`
+  } else {
+    output += `  OID: ${data.oid}\n`
+  }
 
-  // Schema names (can be a single name or an array)
+  // Primary name, followed by every alias when the definition declares several
   if (data.name) {
-    if (Array.isArray(data.name)) {
-      output += `  Names: ${data.name.join(', ')}\n`
-    } else {
-      output += `  Name: ${data.name}\n`
-    }
+    output += `  Name: ${data.name}\n`
+  }
+
+  if ('names' in data && data.names && data.names.length > 1) {
+    output += `  Names: ${data.names.join(', ')}\n`
   }
 
   // Optional description
@@ -94,6 +134,11 @@ function formatResult(result: LDAPSchemaType | null, error: string | null, forma
     output += `  Type: ${data.type}\n`
   }
 
+  // Obsolete definitions
+  if (data.obsolete) {
+    output += `  Obsolete: yes\n`
+  }
+
   // Superior class(es) for object classes
   if ('superior' in data && data.superior) {
     output += `  Superior: ${Array.isArray(data.superior) ? data.superior.join(', ') : data.superior}\n`
@@ -132,7 +177,310 @@ function formatResult(result: LDAPSchemaType | null, error: string | null, forma
     output += `  Substring: ${data.substring}\n`
   }
 
-  return output
+  return output.replace(/^(?=.)/gm, indent)
+}
+
+/**
+ * Write the schema values read from an LDIF file as they are read
+ *
+ * Definitions and errors are listed under their entry with the line numbers of the LDIF source, and
+ * written one by one so that large files are converted without keeping them in memory. The JSON format
+ * keeps the entry structure of OlcSchemaConfigReader.read, and the schema format, whose definitions are
+ * grouped by kind, is written once every value is read.
+ *
+ * @param values - The schema values read from the file
+ * @param format - The desired output format ('json', 'pretty' or 'schema')
+ * @param write - Write the next part of the output
+ * @returns true when definitions were read and every value was parsed
+ */
+async function writeLDIFResult(values: AsyncIterable<LDIFSchemaValueInterface>, format: 'json' | 'pretty' | 'schema', write: (text: string) => Promise<void>): Promise<boolean> {
+  // Nested JSON values are indented at their depth in the output document
+  const json = (value: unknown, depth: number) => JSON.stringify(value, null, 2).replace(/\n/g, `\n${'  '.repeat(depth)}`)
+  // Macros and errors of the current entry, written after its definitions in the JSON format
+  let entry: { line: number; definitionCount: number; objectIdentifiers: Record<string, string>; errors: LDIFSchemaErrorInterface[] } | null = null
+  let entryCount = 0
+  let definitionCount = 0
+  let errorCount = 0
+  let readError: RFC4512ParserError | null = null
+  // Everything read, for the schema format only
+  const definitions: LDAPSchemaType[] = []
+  const objectIdentifiers: Record<string, string> = {}
+  const errors: string[] = []
+
+  const closeEntry = async () => {
+    if (entry && format === 'json') {
+      await write(`${entry.definitionCount > 0 ? '\n      ' : ''}],\n      "objectIdentifiers": ${json(entry.objectIdentifiers, 3)},\n      "errors": ${json(entry.errors, 3)}\n    }`)
+    }
+  }
+
+  if (format === 'json') {
+    await write('{\n  "data": [')
+  }
+
+  try {
+    for await (const { dn, entryLine, attribute, line, value, schema, objectIdentifier, error } of values) {
+      if (entry?.line !== entryLine) {
+        await closeEntry()
+        if (format === 'json') {
+          await write(`${entryCount > 0 ? ',' : ''}\n    {\n      "dn": ${JSON.stringify(dn)},\n      "line": ${entryLine},\n      "definitions": [`)
+        } else if (format === 'pretty') {
+          await write(`\n📂 ${dn} (line ${entryLine})\n`)
+        }
+        entry = { line: entryLine, definitionCount: 0, objectIdentifiers: {}, errors: [] }
+        entryCount++
+      }
+
+      if (objectIdentifier) {
+        entry.objectIdentifiers[objectIdentifier.name] = objectIdentifier.oid
+        objectIdentifiers[objectIdentifier.name] = objectIdentifier.oid
+        if (format === 'pretty') {
+          await write(`  objectIdentifier ${objectIdentifier.name}: ${objectIdentifier.oid}\n`)
+        }
+      } else if (schema) {
+        if (format === 'json') {
+          await write(`${entry.definitionCount > 0 ? ',' : ''}\n        ${json({ attribute, line, value, schema }, 4)}`)
+        } else if (format === 'pretty') {
+          await write(`\n  ✅ ${attribute} (line ${line})\n${formatSchemaInformation(schema, '  ')}`)
+        } else {
+          definitions.push(schema)
+        }
+        entry.definitionCount++
+        definitionCount++
+      } else if (error) {
+        entry.errors.push({ attribute, line, value, error })
+        errors.push(`${attribute} (line ${line}): ${error.message}`)
+        if (format === 'pretty') {
+          await write(`\n  ❌ ${attribute} (line ${line}): ${error.getDetailedMessage()}\n`)
+        }
+        errorCount++
+      }
+    }
+  } catch (error) {
+    // A malformed LDIF line stops reading the whole file
+    if (!(error instanceof RFC4512ParserError)) {
+      throw error
+    }
+    readError = error
+  }
+  await closeEntry()
+
+  // A file without schema attributes, e.g. of another LDIF kind, is an error rather than an empty result
+  let failure = readError ? readError.getDetailedMessage() : definitionCount === 0 ? 'No schema definitions found' : null
+  if (!readError && definitionCount === 0) {
+    logger.error(`${failure}. Expected an OpenLDAP cn=config export or a subschema subentry dump`)
+  }
+
+  let schemaFile = ''
+  if (format === 'schema' && !failure) {
+    // Schema files cannot hold every definition kind of a subschema
+    try {
+      schemaFile = formatSchemaFile(definitions, objectIdentifiers, errors)
+    } catch (error) {
+      if (!(error instanceof RFC4512ParserError)) {
+        throw error
+      }
+      failure = error.getDetailedMessage()
+    }
+  }
+
+  if (format === 'json') {
+    await write(`${entryCount > 0 ? '\n  ' : ''}],\n  "success": ${!failure && errorCount === 0}${failure ? `,\n  "error": ${JSON.stringify(failure)}` : ''}\n}\n`)
+  } else if (failure) {
+    await write(`${format === 'pretty' ? '\n' : ''}${formatResult(null, failure, format)}\n`)
+  } else if (format === 'schema') {
+    await write(`${schemaFile}\n`)
+  } else {
+    const summary = `${definitionCount} definition(s) in ${entryCount} entr${entryCount === 1 ? 'y' : 'ies'}`
+    await write(`\n${errorCount === 0 ? '✅ Parse Success' : `❌ Parse Errors: ${errorCount}`} (${summary})\n`)
+  }
+
+  return !failure && errorCount === 0
+}
+
+/**
+ * Write the definitions read from a text or .schema input as they are read
+ *
+ * An input holding a single definition is written as a single result, with formatResult.
+ * Otherwise definitions are listed with their line numbers, and errors do not stop reading. As for LDIF
+ * files, the schema format is written once every value is read.
+ *
+ * @param values - The values read from the input
+ * @param format - The desired output format ('json', 'pretty' or 'schema')
+ * @param write - Write the next part of the output
+ * @returns true when definitions were read and every value was parsed
+ */
+async function writeTextResult(values: AsyncIterable<TextValue>, format: 'json' | 'pretty' | 'schema', write: (text: string) => Promise<void>): Promise<boolean> {
+  // Nested JSON values are indented at their depth in the output document
+  const json = (value: unknown, depth: number) => JSON.stringify(value, null, 2).replace(/\n/g, `\n${'  '.repeat(depth)}`)
+  // The first value is held until the next one tells whether the input holds a single definition
+  let first: TextValue | null = null
+  let valueCount = 0
+  let definitionCount = 0
+  // Everything read, for the schema format, and the macros and errors written after the definitions in the JSON format
+  const definitions: LDAPSchemaType[] = []
+  const objectIdentifiers: Record<string, string> = {}
+  const errors: { keyword?: string; line: number; value: string; error: RFC4512ParserError }[] = []
+
+  const writeValue = async ({ keyword, line, value, schema, objectIdentifier, error }: TextValue) => {
+    const label = keyword ? `${keyword} (line ${line})` : `line ${line}`
+    if (objectIdentifier) {
+      objectIdentifiers[objectIdentifier.name] = objectIdentifier.oid
+      if (format === 'pretty') {
+        await write(`objectIdentifier ${objectIdentifier.name}: ${objectIdentifier.oid}\n`)
+      }
+    } else if (schema) {
+      if (format === 'json') {
+        await write(`${definitionCount > 0 ? ',' : ''}\n    ${json({ keyword, line, value, schema }, 2)}`)
+      } else if (format === 'pretty') {
+        await write(`\n✅ ${label}\n${formatSchemaInformation(schema, '  ')}`)
+      } else {
+        definitions.push(schema)
+      }
+      definitionCount++
+    } else if (error) {
+      errors.push({ keyword, line, value, error })
+      if (format === 'pretty') {
+        await write(`\n❌ ${label}: ${error.getDetailedMessage()}\n`)
+      }
+    }
+  }
+  const start = async () => {
+    if (format === 'json') {
+      await write('{\n  "data": [')
+    }
+  }
+
+  for await (const value of values) {
+    valueCount++
+    if (valueCount === 1) {
+      first = value
+      continue
+    }
+    if (valueCount === 2) {
+      await start()
+      await writeValue(first!)
+    }
+    await writeValue(value)
+  }
+
+  if (first && valueCount === 1 && !first.objectIdentifier) {
+    const error = first.error ? first.error.getDetailedMessage() : null
+    await write(`${formatResult(first.schema ?? null, error, format)}\n`)
+    return !error
+  }
+  if (valueCount <= 1) {
+    await start()
+    if (first) {
+      await writeValue(first)
+    }
+  }
+
+  let failure = definitionCount === 0 && errors.length === 0 ? 'No schema definitions found' : null
+  let schemaFile = ''
+  if (format === 'schema' && !failure) {
+    // Schema files cannot hold every definition kind
+    try {
+      schemaFile = formatSchemaFile(definitions, objectIdentifiers, errors.map(({ keyword, line, error }) => `${keyword ?? 'definition'} (line ${line}): ${error.message}`))
+    } catch (error) {
+      if (!(error instanceof RFC4512ParserError)) {
+        throw error
+      }
+      failure = error.getDetailedMessage()
+    }
+  }
+
+  if (format === 'json') {
+    await write(`${definitionCount > 0 ? '\n  ' : ''}],\n  "objectIdentifiers": ${json(objectIdentifiers, 1)},\n  "errors": ${json(errors, 1)},\n`)
+    await write(`  "success": ${!failure && errors.length === 0}${failure ? `,\n  "error": ${JSON.stringify(failure)}` : ''}\n}\n`)
+  } else if (failure) {
+    await write(`${format === 'pretty' ? '\n' : ''}${formatResult(null, failure, format)}\n`)
+  } else if (format === 'schema') {
+    await write(`${schemaFile}\n`)
+  } else {
+    const summary = `${definitionCount} definition(s)`
+    await write(`\n${errors.length === 0 ? '✅ Parse Success' : `❌ Parse Errors: ${errors.length}`} (${summary})\n`)
+  }
+
+  return !failure && errors.length === 0
+}
+
+/**
+ * Log every value read from a text or .schema input, in verbose mode
+ *
+ * @param values - The values read from the input
+ * @returns The same values
+ */
+async function* logTextValues(values: AsyncIterable<TextValue>): AsyncGenerator<TextValue> {
+  for await (const value of values) {
+    logger.schemaDefinition(value.value)
+    if (value.error) {
+      logger.error('Parse failed', value.error)
+    }
+    yield value
+  }
+}
+
+/**
+ * Format parsed definitions as a slapd.conf .schema file
+ *
+ * Values that could not be parsed are not written, and are listed in the header comment of the file.
+ *
+ * @param definitions - The parsed schema definitions
+ * @param objectIdentifiers - The objectIdentifier macros to declare and use, keyed by macro name
+ * @param errors - The values that could not be parsed, one message each
+ * @returns The .schema file text
+ */
+function formatSchemaFile(definitions: LDAPSchemaType[], objectIdentifiers: Record<string, string>, errors: string[]): string {
+  const header = errors.length > 0 ? [`${errors.length} value(s) could not be parsed and are not written:`, ...errors.map(error => `  ${error}`)].join('\n') : ''
+
+  return new SchemaFileWriter({ objectIdentifiers, header }).write(definitions)
+}
+
+/**
+ * Tell whether a text is LDIF, i.e. holds at least one `dn:` line
+ *
+ * @param text - The text, or the beginning of a file
+ * @returns true for LDIF
+ */
+function isLDIF(text: string): boolean {
+  return /^dn::?/im.test(text)
+}
+
+/**
+ * Tell whether an LDIF text is the dump of a subschema subentry, i.e. holds RFC 4512 subschema attributes
+ *
+ * @param text - The LDIF text, or the beginning of a file
+ * @returns true for a subschema dump, false for other LDIF such as a cn=config export
+ */
+function isSubschemaLDIF(text: string): boolean {
+  return /^(?:attributeTypes|objectClasses|ldapSyntaxes|matchingRules|matchingRuleUse|dITContentRules|dITStructureRules|nameForms)::?/im.test(text)
+}
+
+/**
+ * Tell whether a text is a slapd.conf-style .schema file, i.e. holds schema directives
+ *
+ * @param text - The text, or the beginning of a file
+ * @returns true for a .schema file, false for bare definitions
+ */
+function isSchemaFile(text: string): boolean {
+  return /^(?:attributetypes?|objectclass(?:es)?|objectidentifier|ldapsyntax|ditcontentrule)\s/im.test(text)
+}
+
+/**
+ * Read the beginning of a file, to tell its format without loading it at once
+ *
+ * @param path - The file path
+ * @param size - The number of bytes to read
+ * @returns The beginning of the file (its last character may be truncated)
+ */
+function readFileHead(path: string, size = 64 * 1024): string {
+  const buffer = Buffer.alloc(size)
+  const fd = openSync(path, 'r')
+  try {
+    return buffer.toString('utf-8', 0, readSync(fd, buffer, 0, size, 0))
+  } finally {
+    closeSync(fd)
+  }
 }
 
 /**
@@ -173,7 +521,7 @@ async function main() {
     .option('format', {
       alias: 'f',
       describe: 'Output format',
-      choices: ['json', 'pretty'] as const,
+      choices: ['json', 'pretty', 'schema'] as const,
       default: 'pretty' as const
     })
     .option('verbose', {
@@ -185,24 +533,29 @@ async function main() {
     .example('$0 "( 2.5.6.6 NAME \'person\' SUP top STRUCTURAL )"', 'Parse a schema definition from command line')
     .example('$0 --input schema.ldif --format json', 'Parse from file and output as JSON')
     .example('$0 --input schema.ldif --output result.json', 'Parse from file and save to output file')
+    .example('$0 --input custom.ldif --format schema --output custom.schema', 'Convert a cn=config LDIF file to a .schema file')
     .help()
     .argv
 
   const options = argv as CliOptions & { schema?: string }
 
   try {
-    let schemaDefinition: string
+    let head: string
+    let source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>
 
     // Get schema definition from various sources
     if (options.schema) {
       // Source 1: Positional argument from command line
-      schemaDefinition = options.schema
+      head = options.schema
+      source = [options.schema]
     } else if (options.input) {
       // Source 2: File specified by --input option
       if (options.verbose) {
         logger.readingFile(options.input)
       }
-      schemaDefinition = readFileSync(options.input, 'utf-8')
+      // Files are streamed, as vendor schema bundles can be large; their beginning tells their format
+      head = readFileHead(options.input)
+      source = createReadStream(options.input)
     } else {
       // No source provided: display error
       logger.error('No schema definition provided. Use positional argument or --input option.')
@@ -212,44 +565,43 @@ async function main() {
     // Verbose mode logging
     if (options.verbose) {
       logger.parsing()
-      logger.schemaDefinition(schemaDefinition.trim())
     }
 
-    // Parse the schema with error handling
-    let result: LDAPSchemaType | null = null
-    let parseError: string | null = null
-
-    try {
-      result = parseSchema(schemaDefinition.trim())
-    } catch (error) {
-      // Specific handling for RFC4512ParserError with detailed messages
-      if (error instanceof RFC4512ParserError) {
-        parseError = error.getDetailedMessage()
-      } else {
-        parseError = error instanceof Error ? error.message : 'Unknown parse error'
-      }
-      if (options.verbose) {
-        logger.error('Parse failed', error instanceof Error ? error : new Error(String(error)))
+    const output = options.output ? createWriteStream(options.output, 'utf-8') : process.stdout
+    if (options.output) {
+      // An output path that cannot be written, e.g. in a missing directory, is reported instead of crashing
+      output.on('error', (error: Error) => {
+        logger.error(`Cannot write to ${options.output}`, error)
+        process.exit(1)
+      })
+    }
+    const write = async (text: string) => {
+      if (!output.write(text)) {
+        await once(output, 'drain')
       }
     }
 
-    // Format the result according to the requested format
-    const formattedResult = formatResult(result, parseError, options.format)
+    let succeeded: boolean
+    if (isLDIF(head)) {
+      // LDIF files (e.g. an OpenLDAP cn=schema,cn=config export) hold several definitions
+      // Subschema subentry dumps (cn=Subschema) use the RFC 4512 attribute names, cn=config exports the olc ones
+      const reader = isSubschemaLDIF(head) ? new SubschemaReader() : new OlcSchemaConfigReader()
+      succeeded = await writeLDIFResult(reader.readStream(source), options.format, write)
+    } else {
+      // slapd.conf .schema files hold directives, other text holds definitions separated by whitespace
+      const values = isSchemaFile(head) ? new SchemaFileReader().readStream(source) : new RFC4512Parser().parseSchemaStream(source)
+      succeeded = await writeTextResult(options.verbose ? logTextValues(values) : values, options.format, write)
+    }
 
-    // Output the result (file or console)
     if (options.output) {
-      // Save to file
-      writeFileSync(options.output, formattedResult, 'utf-8')
+      await new Promise<void>(resolve => output.end(() => resolve()))
       if (options.verbose) {
         logger.resultsSaved(options.output)
       }
-    } else {
-      // Display on console
-      console.log(formattedResult)
     }
 
     // Exit code: 0 if success, 1 if parsing error
-    process.exit(result ? 0 : 1)
+    process.exit(succeeded ? 0 : 1)
 
   } catch (error) {
     // Handle unexpected errors
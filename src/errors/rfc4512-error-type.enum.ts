@@ -86,6 +86,22 @@ export enum RFC4512ErrorType {
    */
   ATTRIBUTETYPE_ERROR = 'ATTRIBUTETYPE_ERROR',
 
+  /**
+   * Duplicate clause error.
+   * Occurs when a clause such as DESC or MUST, or an X- extension, appears
+   * more than once in the same schema definition. The error position points
+   * to the second occurrence and the message gives the first one.
+   */
+  DUPLICATE_CLAUSE = 'DUPLICATE_CLAUSE',
+
+  /**
+   * Malformed LDIF input error.
+   * Occurs when an LDIF source read for schema definitions does not follow
+   * RFC 2849, such as a line without attribute separator or a continuation
+   * line with nothing to continue.
+   */
+  LDIF_ERROR = 'LDIF_ERROR',
+
   /**
    * Grammar file loading error.
    * Occurs when the PEG.js grammar file cannot be loaded or parsed,
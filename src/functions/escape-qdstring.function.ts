@@ -0,0 +1,17 @@
+/**
+ * Escape a value for use inside a quoted string (qdstring) of a schema definition
+ *
+ * Reverses the decoding done by the parser: backslashes become `\5C` and quotes become `\27`,
+ * as required by RFC 4512 Section 4.1. The surrounding quotes are not added.
+ *
+ * @param value - The decoded value, e.g. a DESC or NAME as returned by the parser
+ * @returns The escaped value
+ *
+ * @example
+ * ```typescript
+ * escapeQdstring("O'Reilly") // "O\\27Reilly"
+ * ```
+ */
+export function escapeQdstring(value: string): string {
+  return value.replace(/\\/g, '\\5C').replace(/'/g, '\\27')
+}
@@ -0,0 +1,73 @@
+/**
+ * LDAP syntax OIDs of the Active Directory syntaxes, keyed by `attributeSyntax:oMSyntax`
+ *
+ * Active Directory identifies a syntax by the pair of its attributeSyntax (2.5.5.x) and oMSyntax values.
+ * Standard syntaxes are mapped to their RFC 4517 OID, and AD-specific syntaxes to the OID published by Microsoft.
+ *
+ * @see {@link https://learn.microsoft.com/en-us/windows/win32/adschema/syntaxes} Active Directory syntaxes
+ */
+const ACTIVE_DIRECTORY_SYNTAXES: Record<string, string> = {
+  // Object(DS-DN)
+  '2.5.5.1:127': '1.3.6.1.4.1.1466.115.121.1.12',
+  // String(Object-Identifier)
+  '2.5.5.2:6': '1.3.6.1.4.1.1466.115.121.1.38',
+  // String(Case)
+  '2.5.5.3:27': '1.2.840.113556.1.4.1362',
+  // String(Teletex)
+  '2.5.5.4:20': '1.2.840.113556.1.4.905',
+  // String(Printable)
+  '2.5.5.5:19': '1.3.6.1.4.1.1466.115.121.1.44',
+  // String(IA5)
+  '2.5.5.5:22': '1.3.6.1.4.1.1466.115.121.1.26',
+  // String(Numeric)
+  '2.5.5.6:18': '1.3.6.1.4.1.1466.115.121.1.36',
+  // Object(DN-Binary), also used by Object(OR-Name)
+  '2.5.5.7:127': '1.2.840.113556.1.4.903',
+  // Boolean
+  '2.5.5.8:1': '1.3.6.1.4.1.1466.115.121.1.7',
+  // Integer
+  '2.5.5.9:2': '1.3.6.1.4.1.1466.115.121.1.27',
+  // Enumeration
+  '2.5.5.9:10': '1.3.6.1.4.1.1466.115.121.1.27',
+  // String(Octet)
+  '2.5.5.10:4': '1.3.6.1.4.1.1466.115.121.1.40',
+  // Object(Replica-Link)
+  '2.5.5.10:127': '1.3.6.1.4.1.1466.115.121.1.40',
+  // String(UTC-Time)
+  '2.5.5.11:23': '1.3.6.1.4.1.1466.115.121.1.53',
+  // String(Generalized-Time)
+  '2.5.5.11:24': '1.3.6.1.4.1.1466.115.121.1.24',
+  // String(Unicode)
+  '2.5.5.12:64': '1.3.6.1.4.1.1466.115.121.1.15',
+  // Object(Presentation-Address)
+  '2.5.5.13:127': '1.3.6.1.4.1.1466.115.121.1.43',
+  // Object(DN-String), also used by Object(Access-Point)
+  '2.5.5.14:127': '1.2.840.113556.1.4.904',
+  // String(NT-Sec-Desc)
+  '2.5.5.15:66': '1.2.840.113556.1.4.907',
+  // LargeInteger
+  '2.5.5.16:65': '1.2.840.113556.1.4.906',
+  // String(Sid)
+  '2.5.5.17:4': '1.3.6.1.4.1.1466.115.121.1.40',
+}
+
+/**
+ * Get the LDAP syntax OID of an Active Directory attribute syntax
+ *
+ * Object syntaxes sharing an attributeSyntax and oMSyntax pair, which AD tells apart by their
+ * oMObjectClass, are mapped to the most common one: Object(DN-Binary) for 2.5.5.7 and
+ * Object(DN-String) for 2.5.5.14.
+ *
+ * @param attributeSyntax - The attributeSyntax value of the attributeSchema entry, e.g. 2.5.5.12
+ * @param oMSyntax - The oMSyntax value of the attributeSchema entry, e.g. 64
+ * @returns The LDAP syntax OID, or null for an unknown syntax
+ *
+ * @example
+ * ```typescript
+ * getActiveDirectorySyntax('2.5.5.12', 64) // '1.3.6.1.4.1.1466.115.121.1.15' (Directory String)
+ * getActiveDirectorySyntax('2.5.5.16', 65) // '1.2.840.113556.1.4.906' (LargeInteger)
+ * ```
+ */
+export function getActiveDirectorySyntax(attributeSyntax: string, oMSyntax: number | string): string | null {
+  return ACTIVE_DIRECTORY_SYNTAXES[`${attributeSyntax.trim()}:${String(oMSyntax).trim()}`] ?? null
+}
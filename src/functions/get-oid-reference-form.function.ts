@@ -0,0 +1,36 @@
+import type { LDAPOidReferenceFormType } from '../types'
+import { validateNumericOid } from './validate-numeric-oid.function'
+
+/**
+ * Descriptor: a letter followed by letters, digits, hyphens (and underscores, as found in vendor schemas)
+ */
+const DESCRIPTOR_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]*$/
+
+/**
+ * Tell whether a value is a descriptor or a numeric OID
+ *
+ * Both forms are syntactically disjoint (a descriptor starts with a letter, a numeric OID with a digit).
+ * The parser records how each reference was written in the referenceForms of the definitions, which
+ * also tells the references written with an OpenLDAP objectIdentifier macro from their expanded value.
+ *
+ * @param reference - The value to check, e.g. a reference to another schema element
+ * @returns The form of the reference, or null when it is neither a descriptor nor a numeric OID
+ *
+ * @example
+ * ```typescript
+ * getOidReferenceForm('cn') // 'descr'
+ * getOidReferenceForm('2.5.4.3') // 'numericoid'
+ * getOidReferenceForm('123invalid') // null
+ * ```
+ */
+export function getOidReferenceForm(reference: string): LDAPOidReferenceFormType | null {
+  if (DESCRIPTOR_PATTERN.test(reference)) {
+    return 'descr'
+  }
+
+  if (validateNumericOid(reference) === null) {
+    return 'numericoid'
+  }
+
+  return null
+}
@@ -0,0 +1,74 @@
+import type { JSONSchemaInterface, LDAPAttributeTypeInterface } from '../interfaces'
+
+/**
+ * JSON Schemas of the values of the RFC 4517 syntaxes, keyed by syntax OID
+ *
+ * Binary syntaxes are written as base64 strings, and time syntaxes as RFC 3339 date-times,
+ * which is how JSON payloads usually carry them.
+ *
+ * @see {@link https://tools.ietf.org/html/rfc4517#section-3.3} RFC 4517 Section 3.3
+ */
+const SYNTAX_JSON_SCHEMAS: Record<string, JSONSchemaInterface> = {
+  // Audio, Binary, Certificate, Certificate List, Certificate Pair, JPEG, Octet String
+  '1.3.6.1.4.1.1466.115.121.1.4': { type: 'string', contentEncoding: 'base64' },
+  '1.3.6.1.4.1.1466.115.121.1.5': { type: 'string', contentEncoding: 'base64' },
+  '1.3.6.1.4.1.1466.115.121.1.8': { type: 'string', contentEncoding: 'base64' },
+  '1.3.6.1.4.1.1466.115.121.1.9': { type: 'string', contentEncoding: 'base64' },
+  '1.3.6.1.4.1.1466.115.121.1.10': { type: 'string', contentEncoding: 'base64' },
+  '1.3.6.1.4.1.1466.115.121.1.28': { type: 'string', contentEncoding: 'base64' },
+  '1.3.6.1.4.1.1466.115.121.1.40': { type: 'string', contentEncoding: 'base64' },
+  // Bit String
+  '1.3.6.1.4.1.1466.115.121.1.6': { type: 'string', pattern: "^'[01]*'B$" },
+  // Boolean
+  '1.3.6.1.4.1.1466.115.121.1.7': { type: 'boolean' },
+  // Country String
+  '1.3.6.1.4.1.1466.115.121.1.11': { type: 'string', minLength: 2, maxLength: 2 },
+  // Distinguished Name
+  '1.3.6.1.4.1.1466.115.121.1.12': { type: 'string' },
+  // Directory String
+  '1.3.6.1.4.1.1466.115.121.1.15': { type: 'string', minLength: 1 },
+  // Generalized Time, UTC Time
+  '1.3.6.1.4.1.1466.115.121.1.24': { type: 'string', format: 'date-time' },
+  '1.3.6.1.4.1.1466.115.121.1.53': { type: 'string', format: 'date-time' },
+  // IA5 String
+  '1.3.6.1.4.1.1466.115.121.1.26': { type: 'string', pattern: '^[\\x00-\\x7F]*$' },
+  // INTEGER
+  '1.3.6.1.4.1.1466.115.121.1.27': { type: 'integer' },
+  // Numeric String
+  '1.3.6.1.4.1.1466.115.121.1.36': { type: 'string', pattern: '^[0-9 ]+$' },
+  // OID
+  '1.3.6.1.4.1.1466.115.121.1.38': { type: 'string', pattern: '^(?:[0-9]+(?:\\.[0-9]+)*|[A-Za-z][A-Za-z0-9-]*)$' },
+  // Printable String
+  '1.3.6.1.4.1.1466.115.121.1.44': { type: 'string', pattern: "^[A-Za-z0-9'()+,./:? =-]+$" },
+  // Telephone Number
+  '1.3.6.1.4.1.1466.115.121.1.50': { type: 'string', minLength: 1 },
+  // UUID (RFC 4530)
+  '1.3.6.1.1.16.1': { type: 'string', format: 'uuid' },
+}
+
+/**
+ * Get the JSON Schema of the values of an attribute syntax
+ *
+ * The `{len}` bound of the syntax, when given, is the maxLength of string values; binary values
+ * are not bounded, their base64 text being longer than the value. Syntaxes that are not mapped,
+ * such as vendor syntaxes, accept any string.
+ *
+ * @param syntax - The SYNTAX of an attribute type
+ * @returns The JSON Schema of one value
+ *
+ * @example
+ * ```typescript
+ * getSyntaxJSONSchema({ oid: '1.3.6.1.4.1.1466.115.121.1.26', length: 256 })
+ * // { type: 'string', pattern: '^[\\x00-\\x7F]*$', maxLength: 256 }
+ * getSyntaxJSONSchema({ oid: '1.3.6.1.4.1.1466.115.121.1.24' }) // { type: 'string', format: 'date-time' }
+ * ```
+ */
+export function getSyntaxJSONSchema(syntax: NonNullable<LDAPAttributeTypeInterface['syntax']>): JSONSchemaInterface {
+  const schema: JSONSchemaInterface = { ...(SYNTAX_JSON_SCHEMAS[syntax.oid] ?? { type: 'string' }) }
+
+  if (schema.type === 'string' && syntax.length !== undefined && syntax.length !== null && schema.contentEncoding === undefined) {
+    schema.maxLength = Math.min(syntax.length, schema.maxLength ?? Infinity)
+  }
+
+  return schema
+}
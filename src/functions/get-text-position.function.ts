@@ -0,0 +1,25 @@
+/**
+ * Get the line and column of an offset in a text
+ *
+ * Lines are separated by `\n`, so that a `\r\n` line ending counts as the last column of its line.
+ *
+ * @param text - The text
+ * @param offset - The offset in the text (0-based)
+ * @returns The position, as reported by RFC4512ParserError (1-based line and column)
+ *
+ * @example
+ * ```typescript
+ * getTextPosition('first\nsecond', 8) // { line: 2, column: 3, offset: 8 }
+ * ```
+ */
+export function getTextPosition(text: string, offset: number): { line: number; column: number; offset: number } {
+  let line = 1
+  let lineStart = 0
+
+  for (let index = text.indexOf('\n'); index !== -1 && index < offset; index = text.indexOf('\n', index + 1)) {
+    line++
+    lineStart = index + 1
+  }
+
+  return { line, column: offset - lineStart + 1, offset }
+}
@@ -0,0 +1,21 @@
+import type { LDAPOidSchemaType, LDAPSchemaType } from '../types'
+
+/**
+ * Tell whether a schema definition is identified by an OID
+ *
+ * Every definition but DIT structure rules, which are identified by their ruleId, has an OID.
+ *
+ * @param schema - The parsed schema definition
+ * @returns True when the definition has an OID, narrowing its type to LDAPOidSchemaType
+ *
+ * @example
+ * ```typescript
+ * const schema = parser.parseSchema(definition)
+ * if (hasSchemaOid(schema)) {
+ *   schema.oid // string
+ * }
+ * ```
+ */
+export function hasSchemaOid(schema: LDAPSchemaType): schema is LDAPOidSchemaType {
+  return schema.type !== 'ditStructureRule'
+}
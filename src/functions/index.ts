@@ -1 +1,10 @@
+export * from './escape-qdstring.function'
+export * from './get-active-directory-syntax.function'
+export * from './get-oid-reference-form.function'
+export * from './get-syntax-json-schema.function'
+export * from './get-text-position.function'
+export * from './has-schema-oid.function'
 export * from './parse-schema.function'
+export * from './serialize-schema.function'
+export * from './split-schema-definitions.function'
+export * from './validate-numeric-oid.function'
@@ -0,0 +1,154 @@
+import type { LDAPExtensionsType, LDAPSchemaType } from '../types'
+import { escapeQdstring } from './escape-qdstring.function'
+
+/**
+ * Write a quoted string, escaping quotes and backslashes
+ */
+function qdstring(value: string): string {
+  return `'${escapeQdstring(value)}'`
+}
+
+/**
+ * Write names (qdescrs): one quoted name, or several in parentheses
+ */
+function qdescrs(names: string[]): string {
+  return names.length === 1 ? `'${names[0]}'` : `( ${names.map(name => `'${name}'`).join(' ')} )`
+}
+
+/**
+ * Write OIDs or descriptors (oids): one reference, or several `$` separated in parentheses
+ */
+function oids(references: string[]): string {
+  return references.length === 1 ? references[0] : `( ${references.join(' $ ')} )`
+}
+
+/**
+ * Get the references of a list clause as written, in their macro form when they used an objectIdentifier macro
+ */
+function asWritten(references: string[] | null | undefined, macros: (string | null)[] | undefined): string[] | null | undefined {
+  return references && references.map((reference, index) => macros?.[index] ?? reference)
+}
+
+/**
+ * Write rule IDs (ruleids): one rule ID, or several space separated in parentheses
+ */
+function ruleids(ruleIds: number[]): string {
+  return ruleIds.length === 1 ? String(ruleIds[0]) : `( ${ruleIds.join(' ')} )`
+}
+
+/**
+ * Write the X- extensions, keeping their order and multiple values
+ */
+function extensions(values?: LDAPExtensionsType | null): string[] {
+  return Object.entries(values ?? {}).map(([key, value]) => {
+    return `${key} ${Array.isArray(value) ? `( ${value.map(qdstring).join(' ')} )` : qdstring(value)}`
+  })
+}
+
+/**
+ * Write a clause, or nothing when it has no value
+ *
+ * Parsed definitions use null for missing clauses and generated ones undefined, so both are skipped,
+ * as are empty lists.
+ */
+function clause<T>(keyword: string, value: T | null | undefined, write: (value: T) => string): string[] {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
+    return []
+  }
+  return [`${keyword} ${write(value)}`]
+}
+
+/**
+ * Write a flag clause (e.g. SINGLE-VALUE) when it is set
+ */
+function flag(keyword: string, value: boolean | null | undefined): string[] {
+  return value ? [keyword] : []
+}
+
+/**
+ * Serialize a parsed schema definition back to RFC 4512 text
+ *
+ * Clauses are written in the order of the RFC 4512 ABNF, strings are quoted and escaped, lists are written
+ * `$` separated in parentheses and X- extensions are kept with all their values. OIDs and references written
+ * with an OpenLDAP objectIdentifier macro are written in their macro form (see `oidMacro` and `referenceMacros`),
+ * so that the text parses back to the same definition with the same macros.
+ *
+ * Parsing the text written for a definition returned by the parser gives back the same definition.
+ *
+ * @param schema - The definition, as returned by the parser or built by hand
+ * @param separator - Text written between clauses, e.g. `'\n\t'` to write every clause on its own indented line
+ * @returns The definition text, e.g. `( 2.5.4.3 NAME ( 'cn' 'commonName' ) SUP name )`
+ *
+ * @example
+ * ```typescript
+ * const cn = parseSchema<LDAPAttributeTypeInterface>("( 2.5.4.3 NAME 'cn' SUP name )")
+ * cn.desc = "RFC4519: common name's"
+ * serializeSchema(cn) // "( 2.5.4.3 NAME 'cn' DESC 'RFC4519: common name\27s' SUP name )"
+ * ```
+ */
+export function serializeSchema(schema: LDAPSchemaType, separator = ' '): string {
+  const names = 'names' in schema && schema.names?.length ? schema.names : schema.name ? [schema.name] : []
+  const identifier = schema.type === 'ditStructureRule' ? String(schema.ruleId) : (schema.oidMacro ?? schema.oid)
+  const common = [...clause('NAME', names, qdescrs), ...clause('DESC', schema.desc, qdstring), ...flag('OBSOLETE', schema.obsolete)]
+  let parts: string[]
+
+  switch (schema.type) {
+    case 'attributeType': {
+      const syntax = schema.syntax ? `${schema.syntax.oidMacro ?? schema.syntax.oid}${schema.syntax.length !== undefined && schema.syntax.length !== null ? `{${schema.syntax.length}}` : ''}` : null
+      parts = [
+        ...common,
+        ...clause('SUP', schema.referenceMacros?.sup ?? schema.sup, String),
+        ...clause('EQUALITY', schema.referenceMacros?.equality ?? schema.equality, String),
+        ...clause('ORDERING', schema.referenceMacros?.ordering ?? schema.ordering, String),
+        ...clause('SUBSTR', schema.referenceMacros?.substr ?? schema.substr, String),
+        ...clause('SYNTAX', syntax, String),
+        ...flag('SINGLE-VALUE', schema.singleValue),
+        ...flag('COLLECTIVE', schema.collective),
+        ...flag('NO-USER-MODIFICATION', schema.noUserModification),
+        ...clause('USAGE', schema.usage, String),
+      ]
+      break
+    }
+    case 'objectClass':
+      parts = [
+        ...common,
+        ...clause('SUP', asWritten(schema.sup, schema.referenceMacros?.sup), oids),
+        ...(schema.objectClassType ? [schema.objectClassType] : []),
+        ...clause('MUST', asWritten(schema.must, schema.referenceMacros?.must), oids),
+        ...clause('MAY', asWritten(schema.may, schema.referenceMacros?.may), oids),
+      ]
+      break
+    case 'ldapSyntax':
+      // Syntax descriptions have no NAME
+      parts = [...clause('DESC', schema.desc, qdstring), ...flag('OBSOLETE', schema.obsolete)]
+      break
+    case 'matchingRule':
+      parts = [...common, ...clause('SYNTAX', schema.syntaxMacro ?? schema.syntax, String)]
+      break
+    case 'matchingRuleUse':
+      parts = [...common, ...clause('APPLIES', asWritten(schema.applies, schema.referenceMacros?.applies), oids)]
+      break
+    case 'ditContentRule':
+      parts = [
+        ...common,
+        ...clause('AUX', asWritten(schema.aux, schema.referenceMacros?.aux), oids),
+        ...clause('MUST', asWritten(schema.must, schema.referenceMacros?.must), oids),
+        ...clause('MAY', asWritten(schema.may, schema.referenceMacros?.may), oids),
+        ...clause('NOT', asWritten(schema.not, schema.referenceMacros?.not), oids),
+      ]
+      break
+    case 'ditStructureRule':
+      parts = [...common, ...clause('FORM', schema.referenceMacros?.form ?? schema.form, String), ...clause('SUP', schema.sup, ruleids)]
+      break
+    case 'nameForm':
+      parts = [
+        ...common,
+        ...clause('OC', schema.referenceMacros?.oc ?? schema.oc, String),
+        ...clause('MUST', asWritten(schema.must, schema.referenceMacros?.must), oids),
+        ...clause('MAY', asWritten(schema.may, schema.referenceMacros?.may), oids),
+      ]
+      break
+  }
+
+  return `( ${[identifier, ...parts, ...extensions(schema.extensions)].join(separator)} )`
+}
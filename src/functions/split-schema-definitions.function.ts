@@ -0,0 +1,73 @@
+import type { SchemaDefinitionRangeInterface } from '../interfaces'
+
+/**
+ * OpenLDAP index prefix followed by the opening parenthesis of a definition
+ */
+const PREFIXED_DEFINITION_PATTERN = /\{\d+\}\s*\(/y
+
+/**
+ * Split a text holding several schema definitions
+ *
+ * Definitions are separated by any whitespace. Each definition runs from its opening parenthesis
+ * (or its OpenLDAP `{n}` prefix) to the matching closing parenthesis; parentheses inside quoted
+ * strings are not counted. An unclosed definition runs to the end of the text.
+ *
+ * Text found between definitions is returned as a range of its own, up to the next definition,
+ * so that parsing it reports an error instead of hiding it.
+ *
+ * @param text - The text holding the definitions
+ * @returns The ranges of the definitions and of the text between them, in source order
+ *
+ * @example
+ * ```typescript
+ * splitSchemaDefinitions("( 2.5.4.41 NAME 'name' )\n( 2.5.4.3 NAME 'cn' SUP name )")
+ * // [
+ * //   { start: 0, end: 24, value: "( 2.5.4.41 NAME 'name' )" },
+ * //   { start: 25, end: 55, value: "( 2.5.4.3 NAME 'cn' SUP name )" },
+ * // ]
+ * ```
+ */
+export function splitSchemaDefinitions(text: string): SchemaDefinitionRangeInterface[] {
+  const ranges: SchemaDefinitionRangeInterface[] = []
+  const isDefinitionStart = (index: number) => {
+    PREFIXED_DEFINITION_PATTERN.lastIndex = index
+    return text[index] === '(' || PREFIXED_DEFINITION_PATTERN.test(text)
+  }
+  let index = 0
+
+  while (index < text.length) {
+    if (/\s/.test(text[index])) {
+      index++
+      continue
+    }
+
+    const start = index
+
+    if (isDefinitionStart(index)) {
+      index = text.indexOf('(', index)
+      let depth = 0
+      let quoted = false
+
+      for (; index < text.length; index++) {
+        const char = text[index]
+        if (char === "'") {
+          quoted = !quoted
+        } else if (!quoted && char === '(') {
+          depth++
+        } else if (!quoted && char === ')' && --depth === 0) {
+          index++
+          break
+        }
+      }
+    } else {
+      while (index < text.length && !isDefinitionStart(index)) {
+        index++
+      }
+    }
+
+    const end = start + text.slice(start, index).trimEnd().length
+    ranges.push({ start, end, value: text.slice(start, end) })
+  }
+
+  return ranges
+}
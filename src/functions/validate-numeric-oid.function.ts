@@ -0,0 +1,48 @@
+/**
+ * Validate a numeric OID against the RFC 4512 numericoid production
+ *
+ * A numeric OID is at least two arcs separated by dots, each arc being a number
+ * without leading zero (`number = DIGIT / ( LDIGIT 1*DIGIT )`). Empty arcs, as in `1..2`,
+ * `.1.2` or the trailing dot of `1.2.`, are rejected.
+ *
+ * @param oid - The OID to validate
+ * @param minimumArcs - Minimum number of arcs, lowered for the numeric part of OpenLDAP configuration OIDs (e.g. OLcfgGlAt:13)
+ * @returns null when the OID is valid, otherwise a description of the problem naming the offending arc
+ *
+ * @see {@link https://tools.ietf.org/html/rfc4512#section-1.4} RFC 4512 Section 1.4
+ *
+ * @example
+ * ```typescript
+ * validateNumericOid('2.5.6.6') // null
+ * validateNumericOid('2.05.6') // "arc 2 '05' has a leading zero"
+ * validateNumericOid('2.5.') // 'trailing dot after arc 2'
+ * ```
+ */
+export function validateNumericOid(oid: string, minimumArcs: number = 2): string | null {
+  const arcs = oid.split('.')
+
+  for (const [index, arc] of arcs.entries()) {
+    const position = index + 1
+
+    if (arc === '') {
+      if (index === arcs.length - 1 && index > 0) {
+        return `trailing dot after arc ${index}`
+      }
+      return `arc ${position} is empty`
+    }
+
+    if (!/^[0-9]+$/.test(arc)) {
+      return `arc ${position} '${arc}' is not a number`
+    }
+
+    if (arc.length > 1 && arc.startsWith('0')) {
+      return `arc ${position} '${arc}' has a leading zero`
+    }
+  }
+
+  if (arcs.length < minimumArcs) {
+    return `a numeric OID needs at least ${minimumArcs} arcs`
+  }
+
+  return null
+}
@@ -0,0 +1,2 @@
+export * from './json-schema.generator'
+export * from './typescript.generator'
@@ -0,0 +1,116 @@
+import { getSyntaxJSONSchema } from '../functions'
+import type { JSONSchemaGeneratorOptions, JSONSchemaInterface, LDAPAttributeTypeInterface, LDAPObjectClassInterface } from '../interfaces'
+import type { LDAPSchemaType } from '../types'
+import { SchemaResolver } from './schema.resolver'
+
+/**
+ * JSON Schema dialect of the generated documents
+ */
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+
+/**
+ * JSON Schema Generator
+ *
+ * Generates a JSON Schema (draft 2020-12) document per object class, validating the entries of
+ * that class written as JSON objects keyed by attribute name. The attributes of the class and of
+ * its superior classes are the properties, the MUST attributes being required.
+ *
+ * Single-valued attributes are written as one value and the others as arrays of unique values.
+ * Values get the JSON type and format of their syntax (see getSyntaxJSONSchema), inherited from
+ * the superior attribute type when the attribute has no SYNTAX.
+ *
+ * @example
+ * ```typescript
+ * const schemas = new JSONSchemaGenerator().generate([top, person, objectClass, cn, sn, name])
+ * schemas.person.required // ['objectClass', 'sn', 'cn']
+ * schemas.person.properties.cn // { type: 'array', items: { type: 'string', minLength: 1, maxLength: 32768 }, minItems: 1, uniqueItems: true }
+ * ```
+ */
+export class JSONSchemaGenerator {
+  private readonly _options: Required<JSONSchemaGeneratorOptions>
+
+  /**
+   * Constructor - sets the generation options
+   *
+   * @param options - Generator configuration options
+   */
+  public constructor(options?: JSONSchemaGeneratorOptions) {
+    this._options = { additionalProperties: true, ...options }
+  }
+
+  /**
+   * Generate the JSON Schema of every object class
+   *
+   * Definitions other than object classes and attribute types are ignored.
+   *
+   * @param definitions - The object classes, and every attribute type and superior class they use
+   * @returns The JSON Schemas, keyed by object class name
+   * @throws {RFC4512ParserError} VALIDATION_ERROR when an object class uses an unknown class or attribute type
+   */
+  public generate(definitions: LDAPSchemaType[]): Record<string, JSONSchemaInterface> {
+    const resolver = new SchemaResolver(definitions)
+    const schemas: Record<string, JSONSchemaInterface> = {}
+
+    for (const objectClass of resolver.objectClasses) {
+      schemas[objectClass.name] = this.generateObjectClass(objectClass, resolver)
+    }
+
+    return schemas
+  }
+
+  /**
+   * Generate the JSON Schema of one object class
+   *
+   * @private
+   * @throws {RFC4512ParserError} VALIDATION_ERROR when the class uses an unknown class or attribute type
+   */
+  private generateObjectClass(objectClass: LDAPObjectClassInterface, resolver: SchemaResolver): JSONSchemaInterface {
+    const properties: Record<string, JSONSchemaInterface> = {}
+    const required: string[] = []
+
+    for (const { attributeType, must } of resolver.attributes(objectClass)) {
+      properties[attributeType.name] = this.generateAttribute(attributeType, resolver.syntax(attributeType, objectClass))
+      if (must) {
+        required.push(attributeType.name)
+      }
+    }
+
+    const schema: JSONSchemaInterface = { $schema: JSON_SCHEMA_DIALECT, title: objectClass.name }
+    if (objectClass.desc) {
+      schema.description = objectClass.desc
+    }
+    if (objectClass.obsolete) {
+      schema.deprecated = true
+    }
+    schema.type = 'object'
+    schema.properties = properties
+    if (required.length > 0) {
+      schema.required = required
+    }
+    schema.additionalProperties = this._options.additionalProperties
+
+    return schema
+  }
+
+  /**
+   * Generate the JSON Schema of the values of an attribute
+   *
+   * @private
+   * @param attributeType - The attribute type
+   * @param syntax - Its syntax, possibly inherited from a superior attribute type
+   */
+  private generateAttribute(attributeType: LDAPAttributeTypeInterface, syntax: LDAPAttributeTypeInterface['syntax']): JSONSchemaInterface {
+    const value = syntax ? getSyntaxJSONSchema(syntax) : { type: 'string' as const }
+    const schema: JSONSchemaInterface = attributeType.desc ? { description: attributeType.desc } : {}
+
+    Object.assign(schema, attributeType.singleValue ? value : { type: 'array', items: value, minItems: 1, uniqueItems: true })
+    if (attributeType.obsolete) {
+      schema.deprecated = true
+    }
+    if (attributeType.noUserModification) {
+      schema.readOnly = true
+    }
+
+    return schema
+  }
+}
@@ -0,0 +1,146 @@
+import { RFC4512ErrorType, RFC4512ParserError } from '../errors'
+import { serializeSchema } from '../functions'
+import type { LDAPAttributeTypeInterface, LDAPObjectClassInterface } from '../interfaces'
+import type { LDAPSchemaType } from '../types'
+
+/**
+ * Attribute of an object class, with whether the class or one of its superior classes requires it
+ */
+export interface ResolvedAttribute {
+  attributeType: LDAPAttributeTypeInterface
+  must: boolean
+}
+
+/**
+ * Schema Resolver
+ *
+ * Resolves the references between object classes and attribute types for the generators:
+ * superior classes, MUST and MAY attributes referenced by any name or OID, and syntaxes
+ * inherited from superior attribute types. Lookups are case-insensitive.
+ */
+export class SchemaResolver {
+  private readonly _objectClasses: LDAPObjectClassInterface[]
+  private readonly _objectClassIndex: Map<string, LDAPObjectClassInterface>
+  private readonly _attributeTypeIndex: Map<string, LDAPAttributeTypeInterface>
+
+  /**
+   * Constructor - indexes the object classes and attribute types, other definitions being ignored
+   *
+   * @param definitions - The object classes, and every attribute type and superior class they use
+   */
+  public constructor(definitions: LDAPSchemaType[]) {
+    this._objectClasses = definitions.filter(definition => definition.type === 'objectClass')
+    this._objectClassIndex = this.index(this._objectClasses)
+    this._attributeTypeIndex = this.index(definitions.filter(definition => definition.type === 'attributeType'))
+  }
+
+  /**
+   * Get the object classes, in definition order
+   */
+  public get objectClasses(): LDAPObjectClassInterface[] {
+    return this._objectClasses
+  }
+
+  /**
+   * Get the superior classes of an object class
+   *
+   * @param objectClass - The object class
+   * @returns The classes of its SUP clause
+   * @throws {RFC4512ParserError} VALIDATION_ERROR when a superior class is unknown
+   */
+  public superiors(objectClass: LDAPObjectClassInterface): LDAPObjectClassInterface[] {
+    return (objectClass.sup ?? []).map(name => this._objectClassIndex.get(name.toLowerCase()) ?? this.throwUnknown(objectClass, 'object class', name))
+  }
+
+  /**
+   * Get the attributes of an object class
+   *
+   * @param objectClass - The object class
+   * @param inherited - Whether to include the attributes of the superior classes, listed first
+   * @returns The attributes, each once, required when any class of the chain lists it in MUST
+   * @throws {RFC4512ParserError} VALIDATION_ERROR when a superior class or an attribute type is unknown
+   */
+  public attributes(objectClass: LDAPObjectClassInterface, inherited = true): ResolvedAttribute[] {
+    const attributes = new Map<LDAPAttributeTypeInterface, ResolvedAttribute>()
+    const seen = new Set<LDAPObjectClassInterface>()
+
+    const collect = (current: LDAPObjectClassInterface) => {
+      seen.add(current)
+      if (inherited) {
+        for (const superior of this.superiors(current)) {
+          if (!seen.has(superior)) {
+            collect(superior)
+          }
+        }
+      }
+
+      for (const [references, must] of [[current.must ?? [], true], [current.may ?? [], false]] as const) {
+        for (const reference of references) {
+          const attributeType = this._attributeTypeIndex.get(reference.toLowerCase()) ?? this.throwUnknown(current, 'attribute type', reference)
+          const attribute = attributes.get(attributeType)
+          if (attribute) {
+            attribute.must ||= must
+          } else {
+            attributes.set(attributeType, { attributeType, must })
+          }
+        }
+      }
+    }
+    collect(objectClass)
+
+    return [...attributes.values()]
+  }
+
+  /**
+   * Get the syntax of an attribute type, inherited from its superior attribute types when it has no SYNTAX
+   *
+   * @param attributeType - The attribute type
+   * @param objectClass - The object class using the attribute, named in errors
+   * @returns The syntax, or undefined when no attribute type of the chain has one
+   * @throws {RFC4512ParserError} VALIDATION_ERROR when a superior attribute type is unknown
+   */
+  public syntax(attributeType: LDAPAttributeTypeInterface, objectClass: LDAPObjectClassInterface): LDAPAttributeTypeInterface['syntax'] {
+    const seen = new Set([attributeType])
+    let current = attributeType
+
+    while (!current.syntax && current.sup) {
+      const superior = this._attributeTypeIndex.get(current.sup.toLowerCase()) ?? this.throwUnknown(objectClass, 'attribute type', current.sup)
+      if (seen.has(superior)) {
+        break
+      }
+      seen.add(superior)
+      current = superior
+    }
+
+    return current.syntax ?? undefined
+  }
+
+  /**
+   * Index definitions by their OID and every name, lowercased
+   *
+   * @private
+   */
+  private index<T extends LDAPObjectClassInterface | LDAPAttributeTypeInterface>(definitions: T[]): Map<string, T> {
+    const index = new Map<string, T>()
+
+    for (const definition of definitions) {
+      for (const key of [definition.oid, definition.name, ...(definition.names ?? [])]) {
+        index.set(key.toLowerCase(), definition)
+      }
+    }
+
+    return index
+  }
+
+  /**
+   * Throw the error of a reference to a definition that was not given
+   *
+   * @private
+   * @throws {RFC4512ParserError} VALIDATION_ERROR
+   */
+  private throwUnknown(objectClass: LDAPObjectClassInterface, kind: string, reference: string): never {
+    throw new RFC4512ParserError(`Unknown ${kind} ${reference} used by object class ${objectClass.name}`, RFC4512ErrorType.VALIDATION_ERROR, serializeSchema(objectClass), {
+      context: 'Object classes are generated from the given object classes and attribute types',
+    })
+  }
+}
@@ -0,0 +1,147 @@
+import { getSyntaxJSONSchema } from '../functions'
+import type { JSONSchemaInterface, LDAPAttributeTypeInterface, LDAPObjectClassInterface, TypeScriptGeneratorOptions } from '../interfaces'
+import type { LDAPSchemaType } from '../types'
+import { SchemaResolver, type ResolvedAttribute } from './schema.resolver'
+
+/**
+ * TypeScript Generator
+ *
+ * Writes a TypeScript interface per object class, for the entries of that class keyed by attribute
+ * name. Interfaces extend the interfaces of their superior classes, MUST attributes are required
+ * and MAY attributes optional, multi-valued attributes are arrays (e.g. `string[]`) and the DESC
+ * of the definitions is written as JSDoc.
+ *
+ * Values of Integer attributes are numbers, of Boolean attributes booleans, of binary attributes
+ * the configured binary type, and strings otherwise. Syntaxes are inherited from the superior
+ * attribute type when the attribute has no SYNTAX.
+ *
+ * @example
+ * ```typescript
+ * writeFileSync('ldap-entries.ts', new TypeScriptGenerator().generate(definitions))
+ * // /**
+ * //  * RFC2256: a person
+ * //  *
+ * //  * Object class person (2.5.6.6)
+ * //  *\/
+ * // export interface Person extends Top {
+ * //   sn: string[]
+ * //
+ * //   cn: string[]
+ * //
+ * //   description?: string[]
+ * // }
+ * ```
+ */
+export class TypeScriptGenerator {
+  private readonly _options: Required<TypeScriptGeneratorOptions>
+
+  /**
+   * Constructor - sets the generation options
+   *
+   * @param options - Generator configuration options
+   */
+  public constructor(options?: TypeScriptGeneratorOptions) {
+    this._options = { nameSuffix: '', binaryType: 'Uint8Array', ...options }
+  }
+
+  /**
+   * Write the interface of every object class
+   *
+   * Definitions other than object classes and attribute types are ignored.
+   *
+   * @param definitions - The object classes, and every attribute type and superior class they use
+   * @returns The TypeScript source, one exported interface per object class in definition order
+   * @throws {RFC4512ParserError} VALIDATION_ERROR when an object class uses an unknown class or attribute type
+   */
+  public generate(definitions: LDAPSchemaType[]): string {
+    const resolver = new SchemaResolver(definitions)
+
+    return `${resolver.objectClasses.map(objectClass => this.generateObjectClass(objectClass, resolver)).join('\n\n')}\n`
+  }
+
+  /**
+   * Get the interface name of an object class: its name in PascalCase, followed by the name suffix
+   *
+   * @param objectClass - The object class
+   * @returns The interface name, e.g. InetOrgPerson for inetOrgPerson
+   */
+  public interfaceName(objectClass: LDAPObjectClassInterface): string {
+    const words = objectClass.name.split(/[^A-Za-z0-9]+/).filter(word => word.length > 0)
+    return `${words.map(word => word[0].toUpperCase() + word.slice(1)).join('')}${this._options.nameSuffix}`
+  }
+
+  /**
+   * Write the interface of one object class
+   *
+   * Only the attributes that the superior interfaces do not declare are written, and those that
+   * the class requires while a superior class has them optional. Attributes declared differently
+   * by two superior classes are written again, so that the interface can extend both.
+   *
+   * @private
+   * @throws {RFC4512ParserError} VALIDATION_ERROR when the class uses an unknown class or attribute type
+   */
+  private generateObjectClass(objectClass: LDAPObjectClassInterface, resolver: SchemaResolver): string {
+    const superiors = resolver.superiors(objectClass)
+    const inherited = new Map<LDAPAttributeTypeInterface, { must: boolean; conflict: boolean }>()
+
+    for (const superior of superiors) {
+      for (const { attributeType, must } of resolver.attributes(superior)) {
+        const attribute = inherited.get(attributeType)
+        inherited.set(attributeType, attribute ? { must: attribute.must || must, conflict: attribute.conflict || attribute.must !== must } : { must, conflict: false })
+      }
+    }
+
+    const declared: ResolvedAttribute[] = [...inherited]
+      .filter(([, attribute]) => attribute.conflict)
+      .map(([attributeType]) => ({ attributeType, must: true }))
+    for (const attribute of resolver.attributes(objectClass, false)) {
+      const superior = inherited.get(attribute.attributeType)
+      if (!superior || (attribute.must && !superior.must)) {
+        declared.push(attribute)
+      }
+    }
+
+    const heritage = superiors.length > 0 ? ` extends ${superiors.map(superior => this.interfaceName(superior)).join(', ')}` : ''
+    const members = declared.map(({ attributeType, must }) => this.generateAttribute(attributeType, must, resolver.syntax(attributeType, objectClass)))
+    const documentation = this.documentation(
+      [...(objectClass.desc ? [objectClass.desc, ''] : []), `Object class ${objectClass.name} (${objectClass.oid})`, ...(objectClass.obsolete ? ['@deprecated'] : [])],
+      ''
+    )
+
+    return members.length > 0
+      ? `${documentation}\nexport interface ${this.interfaceName(objectClass)}${heritage} {\n${members.join('\n\n')}\n}`
+      : `${documentation}\nexport interface ${this.interfaceName(objectClass)}${heritage} {}`
+  }
+
+  /**
+   * Write the property of an attribute
+   *
+   * @private
+   * @param attributeType - The attribute type
+   * @param must - Whether the property is required
+   * @param syntax - Its syntax, possibly inherited from a superior attribute type
+   */
+  private generateAttribute(attributeType: LDAPAttributeTypeInterface, must: boolean, syntax: LDAPAttributeTypeInterface['syntax']): string {
+    const value: JSONSchemaInterface = syntax ? getSyntaxJSONSchema(syntax) : { type: 'string' }
+    const type = value.type === 'integer' ? 'number' : value.type === 'boolean' ? 'boolean' : value.contentEncoding ? this._options.binaryType : 'string'
+    const key = /^[A-Za-z_$][\w$]*$/.test(attributeType.name) ? attributeType.name : `'${attributeType.name}'`
+    const modifier = attributeType.noUserModification ? 'readonly ' : ''
+    const property = `  ${modifier}${key}${must ? '' : '?'}: ${attributeType.singleValue ? type : `${type}[]`}`
+
+    const lines = [...(attributeType.desc ? [attributeType.desc] : []), ...(attributeType.obsolete ? ['@deprecated'] : [])]
+    return lines.length > 0 ? `${this.documentation(lines, '  ')}\n${property}` : property
+  }
+
+  /**
+   * Write a JSDoc comment
+   *
+   * @private
+   * @param lines - The comment lines, empty strings being blank comment lines
+   * @param indent - Indentation of the comment
+   */
+  private documentation(lines: string[], indent: string): string {
+    // A DESC may hold the comment terminator
+    const body = lines.map(line => (line ? `${indent} * ${line.replace(/\*\//g, '*\\/')}` : `${indent} *`))
+    return [`${indent}/**`, ...body, `${indent} */`].join('\n')
+  }
+}
@@ -1,5 +1,8 @@
 export * from './errors'
 export * from './functions'
+export * from './generators'
 export * from './interfaces'
+export * from './readers'
 export * from './types'
+export * from './writers'
 export * from './rfc4512.parser'
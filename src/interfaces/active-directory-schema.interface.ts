@@ -0,0 +1,28 @@
+import type { LDAPAttributeTypeInterface } from './ldap-attribute-type.interface'
+import type { LDAPObjectClassInterface } from './ldap-object-class.interface'
+import type { LDIFSchemaErrorInterface } from './ldif-schema-error.interface'
+
+/**
+ * Active Directory Schema Interface
+ *
+ * The attributeSchema and classSchema entries of an Active Directory schema export,
+ * converted to RFC 4512 definitions. Every list keeps the order of the source.
+ */
+export interface ActiveDirectorySchemaInterface {
+  /**
+   * Attribute types converted from attributeSchema entries
+   */
+  attributeTypes: LDAPAttributeTypeInterface[]
+
+  /**
+   * Object classes converted from classSchema entries
+   */
+  objectClasses: LDAPObjectClassInterface[]
+
+  /**
+   * Entries that could not be converted, with the attribute at fault
+   *
+   * A missing attribute is reported at the `dn:` line of its entry, with an empty value.
+   */
+  errors: LDIFSchemaErrorInterface[]
+}
@@ -0,0 +1,11 @@
+import type { SubschemaInterface } from './subschema.interface'
+
+/**
+ * ApacheDS Schema Interface
+ *
+ * The meta schema entries of an ApacheDS `ou=schema` export, converted to RFC 4512 definitions
+ * and grouped by definition kind. Every list keeps the order of the source.
+ *
+ * Errors are reported on the `m-*` attribute at fault, when it can be told from the error.
+ */
+export interface ApacheDSSchemaInterface extends Omit<SubschemaInterface, 'dns' | 'matchingRuleUses'> {}
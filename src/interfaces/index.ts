@@ -1,6 +1,36 @@
+export * from './active-directory-schema.interface'
+export * from './apacheds-schema.interface'
+export * from './json-schema.interface'
+export * from './json-schema-generator-options.interface'
 export * from './ldap-attribute-type.interface'
+export * from './ldap-matching-rule.interface'
+export * from './ldap-matching-rule-use.interface'
+export * from './ldap-dit-content-rule.interface'
+export * from './ldap-dit-structure-rule.interface'
+export * from './ldap-name-form.interface'
 export * from './ldap-object-class.interface'
+export * from './ldif-attribute.interface'
+export * from './ldif-entry.interface'
+export * from './ldif-entry-attribute.interface'
+export * from './ldif-schema-definition.interface'
+export * from './ldif-schema-entry.interface'
+export * from './ldif-schema-error.interface'
+export * from './ldif-schema-value.interface'
 export * from './legacy-ldap-schema.interface'
+export * from './olc-schema-config.interface'
+export * from './olc-schema-config-writer-options.interface'
 export * from './rfc4512-parser-options.interface'
+export * from './schema-definition-range.interface'
+export * from './schema-file.interface'
+export * from './schema-file-definition.interface'
+export * from './schema-file-error.interface'
+export * from './schema-file-value.interface'
+export * from './schema-file-writer-options.interface'
+export * from './schema-text.interface'
+export * from './schema-text-definition.interface'
+export * from './schema-text-error.interface'
+export * from './schema-text-value.interface'
+export * from './subschema.interface'
+export * from './typescript-generator-options.interface'
 export * from './ldap-syntax.interface'
 export * from '../errors'
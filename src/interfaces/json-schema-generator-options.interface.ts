@@ -0,0 +1,14 @@
+/**
+ * Configuration options for JSONSchemaGenerator
+ */
+export interface JSONSchemaGeneratorOptions {
+  /**
+   * Allow entries to have attributes that their object class does not list
+   *
+   * Entries usually have auxiliary object classes too, whose attributes the schema
+   * of their structural object class does not list. Disable to reject them.
+   *
+   * @default true
+   */
+  additionalProperties?: boolean
+}
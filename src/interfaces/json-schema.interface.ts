@@ -0,0 +1,100 @@
+/**
+ * JSON Schema Interface (draft 2020-12)
+ *
+ * The subset of JSON Schema keywords written by JSONSchemaGenerator, for an entry of an
+ * object class or for the values of an attribute.
+ *
+ * @see {@link https://json-schema.org/draft/2020-12/json-schema-validation} JSON Schema Validation
+ */
+export interface JSONSchemaInterface {
+  /**
+   * Dialect of the document, set on the schema of an object class
+   *
+   * @example "https://json-schema.org/draft/2020-12/schema"
+   */
+  $schema?: string
+
+  /**
+   * Title, the name of the object class
+   */
+  title?: string
+
+  /**
+   * Description, from the DESC of the definition
+   */
+  description?: string
+
+  /**
+   * JSON type of the value
+   */
+  type?: 'object' | 'array' | 'string' | 'integer' | 'boolean'
+
+  /**
+   * Format of string values
+   *
+   * @example "date-time"
+   */
+  format?: string
+
+  /**
+   * Regular expression that string values match
+   */
+  pattern?: string
+
+  /**
+   * Minimum length of string values
+   */
+  minLength?: number
+
+  /**
+   * Maximum length of string values, from the `{len}` bound of the syntax
+   */
+  maxLength?: number
+
+  /**
+   * Encoding of binary values written as strings
+   *
+   * @example "base64"
+   */
+  contentEncoding?: string
+
+  /**
+   * Schema of the items of array values (multi-valued attributes)
+   */
+  items?: JSONSchemaInterface
+
+  /**
+   * Minimum number of items of array values
+   */
+  minItems?: number
+
+  /**
+   * Whether the items of array values are unique
+   */
+  uniqueItems?: boolean
+
+  /**
+   * Schemas of the properties of object values (the attributes of an entry)
+   */
+  properties?: Record<string, JSONSchemaInterface>
+
+  /**
+   * Properties that object values must have (the MUST attributes of an entry)
+   */
+  required?: string[]
+
+  /**
+   * Whether object values may have properties not listed in properties
+   */
+  additionalProperties?: boolean
+
+  /**
+   * Whether the value should not be used anymore (OBSOLETE definitions)
+   */
+  deprecated?: boolean
+
+  /**
+   * Whether the value is managed by the server (NO-USER-MODIFICATION attributes)
+   */
+  readOnly?: boolean
+}
@@ -1,6 +1,8 @@
 import type {
   LDAPAttributeUsageType,
   LDAPEqualityMatchingRuleType,
+  LDAPExtensionsType,
+  LDAPOidReferenceFormType,
   LDAPOrderingMatchingRuleType,
   LDAPSubstringMatchingRuleType,
   LDAPSyntaxOIDType,
@@ -36,16 +38,35 @@ export interface LDAPAttributeTypeInterface {
   oid: string
 
   /**
-   * Name(s) of the attribute type
+   * OID as written in the definition, when it used an OpenLDAP objectIdentifier macro
    *
-   * Can contain multiple aliases. The first name is typically considered
-   * the primary name. Names must be unique within the schema.
+   * The oid field then holds the expanded numeric OID.
    *
-   * @example "cn" // Single name
-   * @example "( 'commonName' 'cn' )" // Multiple aliases
+   * @example "MyAttrs:3"
+   */
+  oidMacro?: string
+
+  /**
+   * Primary name of the attribute type
+   *
+   * First entry of the NAME clause. When the definition declares several
+   * aliases, all of them are available in {@link names}.
+   *
+   * @example "cn" // From NAME 'cn' or NAME ( 'cn' 'commonName' )
    */
   name: string
 
+  /**
+   * All names of the attribute type, in definition order
+   *
+   * Can contain multiple aliases. The first name is the primary name
+   * and equals {@link name}. Names must be unique within the schema.
+   *
+   * @example ['cn'] // Single name
+   * @example ['cn', 'commonName'] // Multiple aliases
+   */
+  names: string[]
+
   /**
    * Optional textual description
    *
@@ -56,6 +77,16 @@ export interface LDAPAttributeTypeInterface {
    */
   desc?: string
 
+  /**
+   * Obsolete flag
+   *
+   * When true, the attribute type is marked OBSOLETE: it is kept for existing
+   * entries but should not be used in new definitions or entries.
+   *
+   * @default false
+   */
+  obsolete: boolean
+
   /**
    * Superior attribute type from which this inherits
    *
@@ -124,6 +155,13 @@ export interface LDAPAttributeTypeInterface {
      * @example 256 // Maximum 256 characters
      */
     length?: number
+
+    /**
+     * Syntax OID as written in the definition, when it used an OpenLDAP objectIdentifier macro
+     *
+     * @example "MySyntaxes:1"
+     */
+    oidMacro?: string
   }
 
   /**
@@ -174,15 +212,36 @@ export interface LDAPAttributeTypeInterface {
    */
   usage?: LDAPAttributeUsageType
 
+  /**
+   * How each reference to another schema element was written, per clause
+   *
+   * Set by the parser. Clauses listing several references hold one form per reference, in definition order.
+   *
+   * @example { sup: 'descr', equality: 'numericoid' } // From SUP name EQUALITY 2.5.13.2
+   */
+  referenceForms?: { sup?: LDAPOidReferenceFormType; equality?: LDAPOidReferenceFormType; ordering?: LDAPOidReferenceFormType; substr?: LDAPOidReferenceFormType }
+
+  /**
+   * References as written in the definition, per clause, when they used an OpenLDAP objectIdentifier macro
+   *
+   * The reference fields then hold the expanded numeric OIDs. Clauses listing several references hold
+   * one entry per reference, null for the references written without macro.
+   *
+   * @example { sup: 'MyAttrs:1' } // From SUP MyAttrs:1
+   */
+  referenceMacros?: { sup?: string; equality?: string; ordering?: string; substr?: string }
+
   /**
    * Vendor-specific extensions
    *
    * Contains any X-* extensions defined in the schema. These are vendor-specific
    * extensions that provide additional metadata or functionality beyond the RFC 4512 standard.
    * Common examples include X-ORIGIN, X-DEPRECATED, X-ORDERED, etc.
+   * Values written as a list in parentheses are kept as arrays.
    *
    * @example { 'X-ORIGIN': 'Sun ONE Messaging Server' }
    * @example { 'X-DEPRECATED': 'true', 'X-ORIGIN': 'Custom Application' }
+   * @example { 'X-ORIGIN': ['RFC 4519', 'user defined'] }
    */
-  extensions?: Record<string, string>
+  extensions?: LDAPExtensionsType
 }
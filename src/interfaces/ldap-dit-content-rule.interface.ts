@@ -0,0 +1,126 @@
+import type { LDAPExtensionsType, LDAPOidReferenceFormType } from '../types'
+
+/**
+ * LDAP DIT Content Rule Definition Interface (RFC 4512)
+ *
+ * This interface represents a DIT content rule definition as specified in RFC 4512.
+ * A DIT content rule applies to the entries of one structural object class and controls
+ * which auxiliary classes they may use, plus attributes that are additionally required,
+ * allowed or precluded. It is identified by the OID of that structural object class.
+ *
+ * @see {@link https://tools.ietf.org/html/rfc4512#section-4.1.6} RFC 4512 Section 4.1.6
+ */
+export interface LDAPDITContentRuleInterface {
+  /**
+   * Definition type discriminator
+   *
+   * Always set to 'ditContentRule' to distinguish from other schema definitions.
+   * Used for type safety and runtime type checking.
+   */
+  type: 'ditContentRule'
+
+  /**
+   * Object Identifier (OID) of the structural object class the rule applies to
+   *
+   * @example "2.5.6.6" // person
+   */
+  oid: string
+
+  /**
+   * OID as written in the definition, when it used an OpenLDAP objectIdentifier macro
+   *
+   * The oid field then holds the expanded numeric OID.
+   *
+   * @example "MyAttrs:3"
+   */
+  oidMacro?: string
+
+  /**
+   * Primary name of the rule
+   *
+   * First entry of the NAME clause, if any. NAME is optional for DIT content rules.
+   *
+   * @example "personContentRule"
+   */
+  name?: string
+
+  /**
+   * All names of the rule, in definition order
+   *
+   * Empty when the definition has no NAME clause.
+   */
+  names: string[]
+
+  /**
+   * Optional textual description
+   */
+  desc?: string
+
+  /**
+   * Obsolete flag
+   *
+   * When true, the DIT content rule is marked OBSOLETE.
+   *
+   * @default false
+   */
+  obsolete: boolean
+
+  /**
+   * Auxiliary object classes allowed on entries (AUX clause)
+   *
+   * @example ['posixAccount', 'shadowAccount']
+   */
+  aux?: string[]
+
+  /**
+   * Additionally required attributes (MUST clause)
+   *
+   * @example ['uid']
+   */
+  must?: string[]
+
+  /**
+   * Additionally allowed attributes (MAY clause)
+   *
+   * @example ['mail', 'description']
+   */
+  may?: string[]
+
+  /**
+   * Precluded attributes (NOT clause)
+   *
+   * Attributes that entries of the structural object class may not contain,
+   * even if allowed by one of their object classes.
+   *
+   * @example ['userPassword']
+   */
+  not?: string[]
+
+  /**
+   * How each reference to another schema element was written, per clause
+   *
+   * Set by the parser. Clauses listing several references hold one form per reference, in definition order.
+   *
+   * @example { aux: ['descr'], not: ['numericoid'] } // From AUX posixAccount NOT 2.5.4.35
+   */
+  referenceForms?: { aux?: LDAPOidReferenceFormType[]; must?: LDAPOidReferenceFormType[]; may?: LDAPOidReferenceFormType[]; not?: LDAPOidReferenceFormType[] }
+
+  /**
+   * References as written in the definition, per clause, when they used an OpenLDAP objectIdentifier macro
+   *
+   * The reference fields then hold the expanded numeric OIDs. Clauses listing several references hold
+   * one entry per reference, null for the references written without macro.
+   *
+   * @example { aux: ['MyClasses:2'] } // From AUX MyClasses:2
+   */
+  referenceMacros?: { aux?: (string | null)[]; must?: (string | null)[]; may?: (string | null)[]; not?: (string | null)[] }
+
+  /**
+   * Vendor-specific extensions
+   *
+   * Contains any X-* extensions defined in the schema.
+   *
+   * @example { 'X-ORIGIN': 'Custom Application' }
+   */
+  extensions?: LDAPExtensionsType
+}
@@ -0,0 +1,112 @@
+import type { LDAPExtensionsType, LDAPOidReferenceFormType } from '../types'
+
+/**
+ * LDAP DIT Structure Rule Definition Interface (RFC 4512)
+ *
+ * This interface represents a DIT structure rule definition as specified in RFC 4512.
+ * DIT structure rules define the naming policy and the permitted hierarchy of entries:
+ * each rule names a name form and may list the rules of the entries allowed as parents.
+ * Unlike other schema definitions, structure rules are identified by an integer rule ID
+ * instead of an OID.
+ *
+ * @see {@link https://tools.ietf.org/html/rfc4512#section-4.1.7.1} RFC 4512 Section 4.1.7.1
+ */
+export interface LDAPDITStructureRuleInterface {
+  /**
+   * Definition type discriminator
+   *
+   * Always set to 'ditStructureRule' to distinguish from other schema definitions.
+   * Used for type safety and runtime type checking.
+   */
+  type: 'ditStructureRule'
+
+  /**
+   * Rule identifier - non-negative integer unique within the subschema
+   *
+   * @example 1
+   */
+  ruleId: number
+
+  /**
+   * Always undefined: DIT structure rules have no OID (see ruleId)
+   *
+   * Declared so that the oid of any parsed definition can be read without narrowing,
+   * use hasSchemaOid to get a definition whose oid is a string.
+   */
+  oid?: undefined
+
+  /**
+   * Primary name of the rule
+   *
+   * First entry of the NAME clause, if any. NAME is optional for DIT structure rules.
+   *
+   * @example "uddiBusinessEntityStructureRule"
+   */
+  name?: string
+
+  /**
+   * All names of the rule, in definition order
+   *
+   * Empty when the definition has no NAME clause.
+   */
+  names: string[]
+
+  /**
+   * Optional textual description
+   */
+  desc?: string
+
+  /**
+   * Obsolete flag
+   *
+   * When true, the DIT structure rule is marked OBSOLETE.
+   *
+   * @default false
+   */
+  obsolete: boolean
+
+  /**
+   * Name form used by the rule (FORM clause)
+   *
+   * @example "uddiBusinessEntityNameForm"
+   */
+  form: string
+
+  /**
+   * Rule IDs of the superior structure rules (SUP clause)
+   *
+   * Entries governed by this rule may be placed below entries governed by
+   * one of these rules. When absent, the rule applies to the subschema's root entries.
+   *
+   * @example [1, 2]
+   */
+  sup?: number[]
+
+  /**
+   * How each reference to another schema element was written, per clause
+   *
+   * Set by the parser. Clauses listing several references hold one form per reference, in definition order.
+   *
+   * @example { form: 'descr' } // From FORM uddiBusinessEntityNameForm
+   */
+  referenceForms?: { form?: LDAPOidReferenceFormType }
+
+  /**
+   * References as written in the definition, per clause, when they used an OpenLDAP objectIdentifier macro
+   *
+   * The reference fields then hold the expanded numeric OIDs. Clauses listing several references hold
+   * one entry per reference, null for the references written without macro.
+   *
+   * @example { form: 'MyForms:1' } // From FORM MyForms:1
+   */
+  referenceMacros?: { form?: string }
+
+  /**
+   * Vendor-specific extensions
+   *
+   * Contains any X-* extensions defined in the schema.
+   *
+   * @example { 'X-ORIGIN': 'RFC 4403' }
+   */
+  extensions?: LDAPExtensionsType
+}
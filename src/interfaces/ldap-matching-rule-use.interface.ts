@@ -0,0 +1,103 @@
+import type { LDAPExtensionsType, LDAPOidReferenceFormType } from '../types'
+
+/**
+ * LDAP Matching Rule Use Definition Interface (RFC 4512)
+ *
+ * This interface represents an LDAP matching rule use definition as specified in RFC 4512.
+ * A matching rule use lists the attribute types a matching rule can be applied to in
+ * extensible match search filters. It is identified by the OID of that matching rule.
+ *
+ * @see {@link https://tools.ietf.org/html/rfc4512#section-4.1.4} RFC 4512 Section 4.1.4
+ */
+export interface LDAPMatchingRuleUseInterface {
+  /**
+   * Definition type discriminator
+   *
+   * Always set to 'matchingRuleUse' to distinguish from other schema definitions.
+   * Used for type safety and runtime type checking.
+   */
+  type: 'matchingRuleUse'
+
+  /**
+   * Object Identifier (OID) of the matching rule this definition applies to
+   *
+   * @example "2.5.13.2" // caseIgnoreMatch
+   */
+  oid: string
+
+  /**
+   * OID as written in the definition, when it used an OpenLDAP objectIdentifier macro
+   *
+   * The oid field then holds the expanded numeric OID.
+   *
+   * @example "MyAttrs:3"
+   */
+  oidMacro?: string
+
+  /**
+   * Primary name, usually the name of the matching rule
+   *
+   * First entry of the NAME clause, if any. NAME is optional for matching rule uses.
+   *
+   * @example "caseIgnoreMatch"
+   */
+  name?: string
+
+  /**
+   * All names of the matching rule use, in definition order
+   *
+   * Empty when the definition has no NAME clause.
+   *
+   * @example ['caseIgnoreMatch']
+   */
+  names: string[]
+
+  /**
+   * Optional textual description
+   */
+  desc?: string
+
+  /**
+   * Obsolete flag
+   *
+   * When true, the matching rule use is marked OBSOLETE.
+   *
+   * @default false
+   */
+  obsolete: boolean
+
+  /**
+   * Attribute types the matching rule can be used with (APPLIES clause)
+   *
+   * @example ['cn', 'sn', 'description']
+   */
+  applies: string[]
+
+  /**
+   * How each reference to another schema element was written, per clause
+   *
+   * Set by the parser. Clauses listing several references hold one form per reference, in definition order.
+   *
+   * @example { applies: ['descr', 'numericoid'] } // From APPLIES ( cn $ 2.5.4.4 )
+   */
+  referenceForms?: { applies?: LDAPOidReferenceFormType[] }
+
+  /**
+   * References as written in the definition, per clause, when they used an OpenLDAP objectIdentifier macro
+   *
+   * The reference fields then hold the expanded numeric OIDs. Clauses listing several references hold
+   * one entry per reference, null for the references written without macro.
+   *
+   * @example { applies: ['MyAttrs:1', null] } // From APPLIES ( MyAttrs:1 $ cn )
+   */
+  referenceMacros?: { applies?: (string | null)[] }
+
+  /**
+   * Vendor-specific extensions
+   *
+   * Contains any X-* extensions defined in the schema.
+   *
+   * @example { 'X-ORIGIN': 'RFC 4517' }
+   */
+  extensions?: LDAPExtensionsType
+}
@@ -0,0 +1,100 @@
+import type { LDAPExtensionsType, LDAPSyntaxOIDType } from '../types'
+
+/**
+ * LDAP Matching Rule Definition Interface (RFC 4512)
+ *
+ * This interface represents an LDAP matching rule definition as specified in RFC 4512.
+ * Matching rules describe how assertion values are compared against attribute values,
+ * and are published by servers in the matchingRules attribute of the subschema subentry.
+ *
+ * @see {@link https://tools.ietf.org/html/rfc4512#section-4.1.3} RFC 4512 Section 4.1.3
+ */
+export interface LDAPMatchingRuleInterface {
+  /**
+   * Definition type discriminator
+   *
+   * Always set to 'matchingRule' to distinguish from other schema definitions.
+   * Used for type safety and runtime type checking.
+   */
+  type: 'matchingRule'
+
+  /**
+   * Object Identifier (OID) - Unique numeric identifier
+   *
+   * The OID is a globally unique identifier for this matching rule.
+   *
+   * @example "2.5.13.2" // caseIgnoreMatch
+   */
+  oid: string
+
+  /**
+   * OID as written in the definition, when it used an OpenLDAP objectIdentifier macro
+   *
+   * The oid field then holds the expanded numeric OID.
+   *
+   * @example "MyAttrs:3"
+   */
+  oidMacro?: string
+
+  /**
+   * Primary name of the matching rule
+   *
+   * First entry of the NAME clause, if any. NAME is optional for matching rules.
+   *
+   * @example "caseIgnoreMatch"
+   */
+  name?: string
+
+  /**
+   * All names of the matching rule, in definition order
+   *
+   * Empty when the definition has no NAME clause.
+   *
+   * @example ['caseIgnoreMatch']
+   */
+  names: string[]
+
+  /**
+   * Optional textual description
+   *
+   * @example "Case-insensitive string comparison"
+   */
+  desc?: string
+
+  /**
+   * Obsolete flag
+   *
+   * When true, the matching rule is marked OBSOLETE and should not be used
+   * in new schema definitions.
+   *
+   * @default false
+   */
+  obsolete: boolean
+
+  /**
+   * Assertion syntax OID
+   *
+   * Identifies the syntax of the assertion values used with this matching rule.
+   *
+   * @example "1.3.6.1.4.1.1466.115.121.1.15" // Directory String syntax
+   */
+  syntax: LDAPSyntaxOIDType
+
+  /**
+   * Assertion syntax OID as written in the definition, when it used an OpenLDAP objectIdentifier macro
+   *
+   * The syntax field then holds the expanded numeric OID.
+   *
+   * @example "MySyntaxes:1"
+   */
+  syntaxMacro?: string
+
+  /**
+   * Vendor-specific extensions
+   *
+   * Contains any X-* extensions defined in the schema.
+   *
+   * @example { 'X-ORIGIN': 'RFC 4517' }
+   */
+  extensions?: LDAPExtensionsType
+}
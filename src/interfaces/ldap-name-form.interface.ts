@@ -0,0 +1,115 @@
+import type { LDAPExtensionsType, LDAPOidReferenceFormType } from '../types'
+
+/**
+ * LDAP Name Form Definition Interface (RFC 4512)
+ *
+ * This interface represents a name form definition as specified in RFC 4512.
+ * A name form specifies the attributes used to build the RDN of entries of
+ * one structural object class. Name forms are referenced by DIT structure rules.
+ *
+ * @see {@link https://tools.ietf.org/html/rfc4512#section-4.1.7.2} RFC 4512 Section 4.1.7.2
+ */
+export interface LDAPNameFormInterface {
+  /**
+   * Definition type discriminator
+   *
+   * Always set to 'nameForm' to distinguish from other schema definitions.
+   * Used for type safety and runtime type checking.
+   */
+  type: 'nameForm'
+
+  /**
+   * Object Identifier (OID) - Unique numeric identifier
+   *
+   * @example "1.3.6.1.1.10.15.1" // uddiBusinessEntityNameForm
+   */
+  oid: string
+
+  /**
+   * OID as written in the definition, when it used an OpenLDAP objectIdentifier macro
+   *
+   * The oid field then holds the expanded numeric OID.
+   *
+   * @example "MyAttrs:3"
+   */
+  oidMacro?: string
+
+  /**
+   * Primary name of the name form
+   *
+   * First entry of the NAME clause, if any.
+   *
+   * @example "uddiBusinessEntityNameForm"
+   */
+  name?: string
+
+  /**
+   * All names of the name form, in definition order
+   *
+   * Empty when the definition has no NAME clause.
+   */
+  names: string[]
+
+  /**
+   * Optional textual description
+   */
+  desc?: string
+
+  /**
+   * Obsolete flag
+   *
+   * When true, the name form is marked OBSOLETE.
+   *
+   * @default false
+   */
+  obsolete: boolean
+
+  /**
+   * Structural object class named by this form (OC clause)
+   *
+   * @example "uddiBusinessEntity"
+   */
+  oc: string
+
+  /**
+   * Mandatory RDN attributes (MUST clause)
+   *
+   * @example ['uddiBusinessKey']
+   */
+  must: string[]
+
+  /**
+   * Optional RDN attributes (MAY clause)
+   *
+   * @example ['uddiAuthorizedName']
+   */
+  may?: string[]
+
+  /**
+   * How each reference to another schema element was written, per clause
+   *
+   * Set by the parser. Clauses listing several references hold one form per reference, in definition order.
+   *
+   * @example { oc: 'descr', must: ['descr'] } // From OC organizationalUnit MUST ou
+   */
+  referenceForms?: { oc?: LDAPOidReferenceFormType; must?: LDAPOidReferenceFormType[]; may?: LDAPOidReferenceFormType[] }
+
+  /**
+   * References as written in the definition, per clause, when they used an OpenLDAP objectIdentifier macro
+   *
+   * The reference fields then hold the expanded numeric OIDs. Clauses listing several references hold
+   * one entry per reference, null for the references written without macro.
+   *
+   * @example { oc: 'MyClasses:1' } // From OC MyClasses:1
+   */
+  referenceMacros?: { oc?: string; must?: (string | null)[]; may?: (string | null)[] }
+
+  /**
+   * Vendor-specific extensions
+   *
+   * Contains any X-* extensions defined in the schema.
+   *
+   * @example { 'X-ORIGIN': 'RFC 4403' }
+   */
+  extensions?: LDAPExtensionsType
+}
@@ -1,4 +1,4 @@
-import type { LDAPObjectClassType } from '../types'
+import type { LDAPExtensionsType, LDAPObjectClassType, LDAPOidReferenceFormType } from '../types'
 
 /**
  * LDAP Object Class Definition Interface (RFC 4512)
@@ -30,16 +30,35 @@ export interface LDAPObjectClassInterface {
   oid: string
 
   /**
-   * Name(s) of the object class
+   * OID as written in the definition, when it used an OpenLDAP objectIdentifier macro
    *
-   * Can contain multiple aliases. The first name is typically considered
-   * the primary name. Names must be unique within the schema.
+   * The oid field then holds the expanded numeric OID.
    *
-   * @example "person" // Single name
-   * @example "( 'inetOrgPerson' 'inetUser' )" // Multiple aliases
+   * @example "MyAttrs:3"
+   */
+  oidMacro?: string
+
+  /**
+   * Primary name of the object class
+   *
+   * First entry of the NAME clause. When the definition declares several
+   * aliases, all of them are available in {@link names}.
+   *
+   * @example "inetOrgPerson" // From NAME 'inetOrgPerson' or NAME ( 'inetOrgPerson' 'inetUser' )
    */
   name: string
 
+  /**
+   * All names of the object class, in definition order
+   *
+   * Can contain multiple aliases. The first name is the primary name
+   * and equals {@link name}. Names must be unique within the schema.
+   *
+   * @example ['person'] // Single name
+   * @example ['inetOrgPerson', 'inetUser'] // Multiple aliases
+   */
+  names: string[]
+
   /**
    * Optional textual description
    *
@@ -50,6 +69,16 @@ export interface LDAPObjectClassInterface {
    */
   desc?: string
 
+  /**
+   * Obsolete flag
+   *
+   * When true, the object class is marked OBSOLETE: it is kept for existing
+   * entries but should not be used in new definitions or entries.
+   *
+   * @default false
+   */
+  obsolete: boolean
+
   /**
    * Superior object class(es) from which this inherits
    *
@@ -103,6 +132,25 @@ export interface LDAPObjectClassInterface {
    */
   may?: string[]
 
+  /**
+   * How each reference to another schema element was written, per clause
+   *
+   * Set by the parser. Clauses listing several references hold one form per reference, in definition order.
+   *
+   * @example { sup: ['descr'], must: ['descr', 'numericoid'] } // From SUP top MUST ( sn $ 2.5.4.3 )
+   */
+  referenceForms?: { sup?: LDAPOidReferenceFormType[]; must?: LDAPOidReferenceFormType[]; may?: LDAPOidReferenceFormType[] }
+
+  /**
+   * References as written in the definition, per clause, when they used an OpenLDAP objectIdentifier macro
+   *
+   * The reference fields then hold the expanded numeric OIDs. Clauses listing several references hold
+   * one entry per reference, null for the references written without macro.
+   *
+   * @example { may: ['MyAttrs:1', null] } // From MAY ( MyAttrs:1 $ description )
+   */
+  referenceMacros?: { sup?: (string | null)[]; must?: (string | null)[]; may?: (string | null)[] }
+
   /**
    * Vendor-specific extensions
    *
@@ -113,5 +161,5 @@ export interface LDAPObjectClassInterface {
    * @example { 'X-ORIGIN': 'Sun ONE Messaging Server' }
    * @example { 'X-DEPRECATED': 'true', 'X-ORIGIN': 'Custom Application' }
    */
-  extensions?: Record<string, string>
+  extensions?: LDAPExtensionsType
 }
@@ -1,3 +1,5 @@
+import type { LDAPExtensionsType } from '../types'
+
 /**
  * LDAP Syntax Definition Interface
  * Represents entries from olcLdapSyntaxes.
@@ -5,7 +7,9 @@
 export interface LDAPSyntaxInterface {
   type: 'ldapSyntax'
   oid: string
+  oidMacro?: string
   name?: string
   desc?: string
-  extensions?: Record<string, string>
+  obsolete: boolean
+  extensions?: LDAPExtensionsType
 }
@@ -0,0 +1,30 @@
+/**
+ * LDIF Attribute Interface (RFC 2849)
+ *
+ * One attribute value of an LDIF record, after unfolding of continuation lines
+ * and decoding of base64 (`::`) values.
+ *
+ * @see {@link https://tools.ietf.org/html/rfc2849} RFC 2849
+ */
+export interface LDIFAttributeInterface {
+  /**
+   * Attribute description as written, including options
+   *
+   * @example "olcAttributeTypes"
+   */
+  name: string
+
+  /**
+   * Decoded attribute value
+   *
+   * @example "{0}( 2.5.4.3 NAME 'cn' SUP name )"
+   */
+  value: string
+
+  /**
+   * Line number of the attribute in the LDIF source (1-based indexing)
+   *
+   * Points to the first line of the value when it is folded across continuation lines.
+   */
+  line: number
+}
@@ -0,0 +1,21 @@
+import type { LDIFAttributeInterface } from './ldif-attribute.interface'
+
+/**
+ * LDIF Entry Attribute Interface
+ *
+ * One attribute value of an LDIF record along with the record it belongs to, as yielded
+ * by LDIFReader.readAttributeStream without keeping the record in memory.
+ */
+export interface LDIFEntryAttributeInterface extends LDIFAttributeInterface {
+  /**
+   * Distinguished name of the record
+   *
+   * @example "cn={4}custom,cn=schema,cn=config"
+   */
+  dn: string
+
+  /**
+   * Line number of the dn of the record in the LDIF source (1-based indexing)
+   */
+  entryLine: number
+}
@@ -0,0 +1,28 @@
+import type { LDIFAttributeInterface } from './ldif-attribute.interface'
+
+/**
+ * LDIF Entry Interface (RFC 2849)
+ *
+ * One LDIF record, identified by its distinguished name, with its attribute
+ * values in source order.
+ *
+ * @see {@link https://tools.ietf.org/html/rfc2849} RFC 2849
+ */
+export interface LDIFEntryInterface {
+  /**
+   * Distinguished name of the entry
+   *
+   * @example "cn={0}core,cn=schema,cn=config"
+   */
+  dn: string
+
+  /**
+   * Line number of the `dn:` line in the LDIF source (1-based indexing)
+   */
+  line: number
+
+  /**
+   * Attribute values of the entry, in source order, without the dn
+   */
+  attributes: LDIFAttributeInterface[]
+}
@@ -0,0 +1,33 @@
+import type { LDAPSchemaType } from '../types'
+
+/**
+ * LDIF Schema Definition Interface
+ *
+ * A schema definition read from an LDIF attribute value, such as an
+ * olcAttributeTypes value of an OpenLDAP olcSchemaConfig entry.
+ */
+export interface LDIFSchemaDefinitionInterface {
+  /**
+   * Attribute the definition was read from
+   *
+   * @example "olcAttributeTypes"
+   */
+  attribute: string
+
+  /**
+   * Line number of the attribute value in the LDIF source (1-based indexing)
+   */
+  line: number
+
+  /**
+   * Definition text, as decoded from the LDIF value
+   *
+   * @example "{0}( 2.5.4.3 NAME 'cn' SUP name )"
+   */
+  value: string
+
+  /**
+   * Parsed schema definition
+   */
+  schema: LDAPSchemaType
+}
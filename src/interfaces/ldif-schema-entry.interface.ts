@@ -0,0 +1,39 @@
+import type { LDIFSchemaDefinitionInterface } from './ldif-schema-definition.interface'
+import type { LDIFSchemaErrorInterface } from './ldif-schema-error.interface'
+
+/**
+ * LDIF Schema Entry Interface
+ *
+ * The schema definitions read from one LDIF entry, e.g. an OpenLDAP
+ * `cn={0}core,cn=schema,cn=config` olcSchemaConfig entry.
+ */
+export interface LDIFSchemaEntryInterface {
+  /**
+   * Distinguished name of the entry
+   *
+   * @example "cn={0}core,cn=schema,cn=config"
+   */
+  dn: string
+
+  /**
+   * Line number of the `dn:` line in the LDIF source (1-based indexing)
+   */
+  line: number
+
+  /**
+   * objectIdentifier macros declared by the entry, expanded to numeric OIDs
+   *
+   * @example { OLcfg: '1.3.6.1.4.1.4203.1.12.2' }
+   */
+  objectIdentifiers: Record<string, string>
+
+  /**
+   * Successfully parsed definitions, in source order
+   */
+  definitions: LDIFSchemaDefinitionInterface[]
+
+  /**
+   * Values that could not be parsed, in source order
+   */
+  errors: LDIFSchemaErrorInterface[]
+}
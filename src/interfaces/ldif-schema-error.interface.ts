@@ -0,0 +1,33 @@
+import type { RFC4512ParserError } from '../errors'
+
+/**
+ * LDIF Schema Error Interface
+ *
+ * An LDIF attribute value that could not be parsed. Reading goes on with the
+ * following values, so one invalid definition does not hide the others.
+ */
+export interface LDIFSchemaErrorInterface {
+  /**
+   * Attribute the value was read from
+   *
+   * @example "olcObjectClasses"
+   */
+  attribute: string
+
+  /**
+   * Line number of the attribute value in the LDIF source (1-based indexing)
+   *
+   * The error position is relative to the value itself.
+   */
+  line: number
+
+  /**
+   * Value text, as decoded from the LDIF value
+   */
+  value: string
+
+  /**
+   * Parsing error
+   */
+  error: RFC4512ParserError
+}
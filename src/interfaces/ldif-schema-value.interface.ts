@@ -0,0 +1,58 @@
+import type { RFC4512ParserError } from '../errors'
+import type { LDAPSchemaType } from '../types'
+
+/**
+ * LDIF Schema Value Interface
+ *
+ * One schema attribute value of an LDIF entry, as yielded by the readStream method of
+ * the LDIF schema readers. Exactly one of schema, objectIdentifier and error is set.
+ */
+export interface LDIFSchemaValueInterface {
+  /**
+   * Distinguished name of the entry holding the value
+   *
+   * @example "cn={4}custom,cn=schema,cn=config"
+   */
+  dn: string
+
+  /**
+   * Line number of the dn of the entry in the LDIF source (1-based indexing)
+   */
+  entryLine: number
+
+  /**
+   * Attribute the value was read from
+   *
+   * @example "olcAttributeTypes"
+   */
+  attribute: string
+
+  /**
+   * Line number of the attribute value in the LDIF source (1-based indexing)
+   */
+  line: number
+
+  /**
+   * Value text, as decoded from the LDIF value
+   *
+   * @example "{0}( 2.5.4.3 NAME 'cn' SUP name )"
+   */
+  value: string
+
+  /**
+   * Parsed schema definition, for definition values
+   */
+  schema?: LDAPSchemaType
+
+  /**
+   * Loaded objectIdentifier macro, for olcObjectIdentifier values
+   *
+   * @example { name: 'MyAttrs', oid: '1.3.6.1.4.1.9999.1' }
+   */
+  objectIdentifier?: { name: string; oid: string }
+
+  /**
+   * Error raised while reading the value
+   */
+  error?: RFC4512ParserError
+}
@@ -0,0 +1,21 @@
+/**
+ * Configuration options for OlcSchemaConfigWriter
+ */
+export interface OlcSchemaConfigWriterOptions {
+  /**
+   * Number the values of every attribute again from {0}, in the order of the definitions
+   *
+   * When disabled, definitions read by OlcSchemaConfigReader keep the index of their value,
+   * and the other definitions are numbered after the highest index of their attribute.
+   *
+   * @default true
+   */
+  renumber?: boolean
+
+  /**
+   * Maximum length of the LDIF lines, longer lines being folded on continuation lines
+   *
+   * @default 76 - the line length recommended by RFC 2849
+   */
+  lineWidth?: number
+}
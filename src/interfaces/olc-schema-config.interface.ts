@@ -0,0 +1,38 @@
+import type { LDAPSchemaType } from '../types'
+import type { LDIFSchemaDefinitionInterface } from './ldif-schema-definition.interface'
+
+/**
+ * OpenLDAP olcSchemaConfig Interface
+ *
+ * A schema to write as an OpenLDAP `cn={n}name,cn=schema,cn=config` olcSchemaConfig entry.
+ */
+export interface OlcSchemaConfigInterface {
+  /**
+   * Schema name, written without index in the cn
+   *
+   * @example "custom"
+   */
+  name: string
+
+  /**
+   * Index of the schema among the schemas of cn=schema,cn=config
+   *
+   * When omitted, the cn has no `{n}` prefix and OpenLDAP appends the schema after the others.
+   */
+  index?: number
+
+  /**
+   * objectIdentifier macros, keyed by macro name, written as olcObjectIdentifier values
+   *
+   * @example { MyRoot: '1.3.6.1.4.1.99999', MyAttrs: 'MyRoot:1' }
+   */
+  objectIdentifiers?: Record<string, string>
+
+  /**
+   * Definitions to write, parsed or as read by OlcSchemaConfigReader (keeping their `{n}` index)
+   *
+   * Only attribute types, object classes, LDAP syntaxes and DIT content rules can be written,
+   * the other definition types having no olcSchemaConfig attribute.
+   */
+  definitions: (LDAPSchemaType | LDIFSchemaDefinitionInterface)[]
+}
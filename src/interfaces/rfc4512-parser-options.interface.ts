@@ -30,4 +30,39 @@ export interface RFC4512ParserOptions {
    * @default false - enforce RFC 4512 compliance (MUST and MAY are mutually exclusive)
    */
   allowMustMayOverlap?: boolean
+
+  /**
+   * Allow the same X- extension to appear more than once in a definition
+   *
+   * Repeated clauses are always reported as DUPLICATE_CLAUSE errors. Some vendor schemas
+   * repeat X- extensions, so they can be accepted explicitly with this option.
+   * The values of a repeated extension are merged into a list, in definition order.
+   *
+   * @default false - repeated X- extensions are reported as DUPLICATE_CLAUSE errors
+   */
+  allowDuplicateExtensions?: boolean
+
+  /**
+   * Require attribute type clauses to follow the order defined by RFC 4512
+   *
+   * Attribute type clauses are accepted in any order by default, as several vendor
+   * schemas put SYNTAX before EQUALITY for instance. When enabled, a clause appearing
+   * after one that RFC 4512 places later is reported as an ATTRIBUTETYPE_ERROR,
+   * positioned on the misplaced clause.
+   *
+   * @default false - attribute type clauses are accepted in any order
+   */
+  strictAttributeTypeOrder?: boolean
+
+  /**
+   * OpenLDAP objectIdentifier macros, keyed by macro name
+   *
+   * Definitions may then use OIDs like `MyAttrs:3`, which are expanded to numeric OIDs.
+   * A macro value may itself use a macro defined before it. Macros can also be added
+   * later with `addObjectIdentifier` or `loadObjectIdentifiers`.
+   *
+   * @example { MyAttrs: '1.3.6.1.4.1.9999.1', MyClasses: 'MyAttrs:100' }
+   * @default {} - no macros
+   */
+  objectIdentifiers?: Record<string, string>
 }
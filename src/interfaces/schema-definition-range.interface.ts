@@ -0,0 +1,24 @@
+/**
+ * Schema Definition Range Interface
+ *
+ * A part of a text holding several schema definitions, as split by splitSchemaDefinitions:
+ * a definition, with its optional OpenLDAP `{n}` prefix, or text found between definitions.
+ */
+export interface SchemaDefinitionRangeInterface {
+  /**
+   * Offset of the first character in the text (0-based)
+   */
+  start: number
+
+  /**
+   * Offset following the last character in the text
+   */
+  end: number
+
+  /**
+   * Text of the range
+   *
+   * @example "( 2.5.4.3 NAME 'cn' SUP name )"
+   */
+  value: string
+}
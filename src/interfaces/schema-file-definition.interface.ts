@@ -0,0 +1,31 @@
+import type { LDAPSchemaType } from '../types'
+
+/**
+ * Schema File Definition Interface
+ *
+ * A definition successfully parsed from a slapd.conf-style `.schema` file,
+ * with its position in the source file.
+ */
+export interface SchemaFileDefinitionInterface {
+  /**
+   * Directive keyword, as written in the file
+   *
+   * @example "attributetype"
+   */
+  keyword: string
+
+  /**
+   * Line number of the directive in the source file (1-based indexing)
+   */
+  line: number
+
+  /**
+   * Definition text, from its opening parenthesis, including its continuation lines
+   */
+  value: string
+
+  /**
+   * Parsed definition
+   */
+  schema: LDAPSchemaType
+}
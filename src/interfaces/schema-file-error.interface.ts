@@ -0,0 +1,33 @@
+import type { RFC4512ParserError } from '../errors'
+
+/**
+ * Schema File Error Interface
+ *
+ * A directive of a slapd.conf-style `.schema` file that could not be read. Reading goes
+ * on with the following directives, so one invalid definition does not hide the others.
+ */
+export interface SchemaFileErrorInterface {
+  /**
+   * Directive keyword, as written in the file
+   *
+   * @example "objectclass"
+   */
+  keyword: string
+
+  /**
+   * Line number of the directive in the source file (1-based indexing)
+   */
+  line: number
+
+  /**
+   * Directive text following the keyword, including its continuation lines
+   */
+  value: string
+
+  /**
+   * Reading error
+   *
+   * Its position is the position in the source file.
+   */
+  error: RFC4512ParserError
+}
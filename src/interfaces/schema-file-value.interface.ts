@@ -0,0 +1,46 @@
+import type { RFC4512ParserError } from '../errors'
+import type { LDAPSchemaType } from '../types'
+
+/**
+ * Schema File Value Interface
+ *
+ * One directive of a slapd.conf-style `.schema` file, as yielded by SchemaFileReader.readStream.
+ * Exactly one of schema, objectIdentifier and error is set.
+ */
+export interface SchemaFileValueInterface {
+  /**
+   * Directive keyword, as written in the file
+   *
+   * @example "attributetype"
+   */
+  keyword: string
+
+  /**
+   * Line number of the directive in the source file (1-based indexing)
+   */
+  line: number
+
+  /**
+   * Directive text following the keyword, including its continuation lines
+   */
+  value: string
+
+  /**
+   * Parsed schema definition, for definition directives
+   */
+  schema?: LDAPSchemaType
+
+  /**
+   * Loaded objectIdentifier macro, for objectidentifier directives
+   *
+   * @example { name: 'NISSchema', oid: '1.3.6.1.1.1' }
+   */
+  objectIdentifier?: { name: string; oid: string }
+
+  /**
+   * Error raised while reading the directive
+   *
+   * Its position is the position in the source file.
+   */
+  error?: RFC4512ParserError
+}
@@ -0,0 +1,29 @@
+/**
+ * Configuration options for SchemaFileWriter
+ */
+export interface SchemaFileWriterOptions {
+  /**
+   * objectIdentifier macros, keyed by macro name, written as `objectidentifier` directives
+   *
+   * OIDs under a macro are then written in their macro form, e.g. `MyAttrs:1`, using the macro
+   * closest to the OID. Without macros, every OID is written in numeric form.
+   *
+   * @example { MyRoot: '1.3.6.1.4.1.99999', MyAttrs: '1.3.6.1.4.1.99999.1' }
+   * @default {} - no macros
+   */
+  objectIdentifiers?: Record<string, string>
+
+  /**
+   * Comment written at the top of the file, one `#` line per line of text
+   *
+   * @example "custom.schema -- Employee badges"
+   */
+  header?: string
+
+  /**
+   * Indentation of the clauses following the OID of a definition
+   *
+   * @default '\t' - as in the OpenLDAP schema files
+   */
+  indent?: string
+}
@@ -0,0 +1,26 @@
+import type { SchemaFileDefinitionInterface } from './schema-file-definition.interface'
+import type { SchemaFileErrorInterface } from './schema-file-error.interface'
+
+/**
+ * Schema File Interface
+ *
+ * Everything read from a slapd.conf-style `.schema` file, e.g. OpenLDAP `core.schema`.
+ */
+export interface SchemaFileInterface {
+  /**
+   * objectIdentifier macros declared by the file, expanded to numeric OIDs
+   *
+   * @example { NISSchema: '1.3.6.1.1.1' }
+   */
+  objectIdentifiers: Record<string, string>
+
+  /**
+   * Successfully parsed definitions, in source order
+   */
+  definitions: SchemaFileDefinitionInterface[]
+
+  /**
+   * Directives that could not be read, in source order
+   */
+  errors: SchemaFileErrorInterface[]
+}
@@ -0,0 +1,14 @@
+import type { LDAPSchemaType } from '../types'
+import type { SchemaDefinitionRangeInterface } from './schema-definition-range.interface'
+
+/**
+ * Schema Text Definition Interface
+ *
+ * A definition successfully parsed from a text holding several definitions, with its offset range.
+ */
+export interface SchemaTextDefinitionInterface extends SchemaDefinitionRangeInterface {
+  /**
+   * Parsed definition
+   */
+  schema: LDAPSchemaType
+}
@@ -0,0 +1,16 @@
+import type { RFC4512ParserError } from '../errors'
+import type { SchemaDefinitionRangeInterface } from './schema-definition-range.interface'
+
+/**
+ * Schema Text Error Interface
+ *
+ * A part of a text holding several definitions that could not be parsed, with its offset range.
+ */
+export interface SchemaTextErrorInterface extends SchemaDefinitionRangeInterface {
+  /**
+   * Parsing error
+   *
+   * Its position is relative to the whole text.
+   */
+  error: RFC4512ParserError
+}
@@ -0,0 +1,28 @@
+import type { RFC4512ParserError } from '../errors'
+import type { LDAPSchemaType } from '../types'
+import type { SchemaDefinitionRangeInterface } from './schema-definition-range.interface'
+
+/**
+ * Schema Text Value Interface
+ *
+ * A part of a stream holding several definitions, as yielded by RFC4512Parser.parseSchemaStream
+ * as soon as it is read: either a parsed definition or an error.
+ */
+export interface SchemaTextValueInterface extends SchemaDefinitionRangeInterface {
+  /**
+   * Line number of the first character in the stream (1-based indexing)
+   */
+  line: number
+
+  /**
+   * Parsed definition, when parsing succeeded
+   */
+  schema?: LDAPSchemaType
+
+  /**
+   * Parsing error, when parsing failed
+   *
+   * Its position is relative to the whole stream.
+   */
+  error?: RFC4512ParserError
+}
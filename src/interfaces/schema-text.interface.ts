@@ -0,0 +1,20 @@
+import type { SchemaTextDefinitionInterface } from './schema-text-definition.interface'
+import type { SchemaTextErrorInterface } from './schema-text-error.interface'
+
+/**
+ * Schema Text Interface
+ *
+ * Everything parsed from a text holding several schema definitions, e.g. a paste of definitions
+ * separated by whitespace or newlines.
+ */
+export interface SchemaTextInterface {
+  /**
+   * Successfully parsed definitions, in source order
+   */
+  definitions: SchemaTextDefinitionInterface[]
+
+  /**
+   * Parts of the text that could not be parsed, in source order
+   */
+  errors: SchemaTextErrorInterface[]
+}
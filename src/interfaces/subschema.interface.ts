@@ -0,0 +1,71 @@
+import type { LDAPAttributeTypeInterface } from './ldap-attribute-type.interface'
+import type { LDAPDITContentRuleInterface } from './ldap-dit-content-rule.interface'
+import type { LDAPDITStructureRuleInterface } from './ldap-dit-structure-rule.interface'
+import type { LDAPMatchingRuleInterface } from './ldap-matching-rule.interface'
+import type { LDAPMatchingRuleUseInterface } from './ldap-matching-rule-use.interface'
+import type { LDAPNameFormInterface } from './ldap-name-form.interface'
+import type { LDAPObjectClassInterface } from './ldap-object-class.interface'
+import type { LDAPSyntaxInterface } from './ldap-syntax.interface'
+import type { LDIFSchemaErrorInterface } from './ldif-schema-error.interface'
+
+/**
+ * Subschema Interface (RFC 4512 Section 4.2)
+ *
+ * The schema definitions published by a subschema subentry, e.g. `cn=Subschema`,
+ * grouped by definition kind. Every list keeps the order of the source.
+ *
+ * @see {@link https://tools.ietf.org/html/rfc4512#section-4.2} RFC 4512 Section 4.2
+ */
+export interface SubschemaInterface {
+  /**
+   * Distinguished names of the subschema subentries read
+   *
+   * @example ["cn=Subschema"]
+   */
+  dns: string[]
+
+  /**
+   * Attribute types (attributeTypes values)
+   */
+  attributeTypes: LDAPAttributeTypeInterface[]
+
+  /**
+   * Object classes (objectClasses values)
+   */
+  objectClasses: LDAPObjectClassInterface[]
+
+  /**
+   * LDAP syntaxes (ldapSyntaxes values)
+   */
+  ldapSyntaxes: LDAPSyntaxInterface[]
+
+  /**
+   * Matching rules (matchingRules values)
+   */
+  matchingRules: LDAPMatchingRuleInterface[]
+
+  /**
+   * Matching rule uses (matchingRuleUse values)
+   */
+  matchingRuleUses: LDAPMatchingRuleUseInterface[]
+
+  /**
+   * DIT content rules (dITContentRules values)
+   */
+  ditContentRules: LDAPDITContentRuleInterface[]
+
+  /**
+   * DIT structure rules (dITStructureRules values)
+   */
+  ditStructureRules: LDAPDITStructureRuleInterface[]
+
+  /**
+   * Name forms (nameForms values)
+   */
+  nameForms: LDAPNameFormInterface[]
+
+  /**
+   * Values that could not be parsed, in source order
+   */
+  errors: LDIFSchemaErrorInterface[]
+}
@@ -0,0 +1,20 @@
+/**
+ * Configuration options for TypeScriptGenerator
+ */
+export interface TypeScriptGeneratorOptions {
+  /**
+   * Suffix added to the interface names, which are the object class names in PascalCase
+   *
+   * @example "Interface" // inetOrgPerson is written InetOrgPersonInterface
+   * @default '' - no suffix
+   */
+  nameSuffix?: string
+
+  /**
+   * TypeScript type of binary values (Octet String, Binary, Certificate, JPEG...)
+   *
+   * @example "Buffer", or "string" for base64 text
+   * @default 'Uint8Array'
+   */
+  binaryType?: string
+}
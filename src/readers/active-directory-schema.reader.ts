@@ -0,0 +1,292 @@
+import { RFC4512ErrorType, RFC4512ParserError } from '../errors'
+import { getActiveDirectorySyntax, getOidReferenceForm, validateNumericOid } from '../functions'
+import type {
+  ActiveDirectorySchemaInterface,
+  LDAPAttributeTypeInterface,
+  LDAPObjectClassInterface,
+  LDIFAttributeInterface,
+  LDIFEntryInterface,
+} from '../interfaces'
+import type { LDAPObjectClassType } from '../types'
+import { LDIFReader } from './ldif.reader'
+
+/**
+ * Object class kinds of the objectClassCategory values
+ * (0, the "88 class" of X.500 1988, has no kind keyword and defaults to STRUCTURAL)
+ */
+const OBJECT_CLASS_CATEGORIES: Record<string, LDAPObjectClassType | undefined> = {
+  '0': undefined,
+  '1': 'STRUCTURAL',
+  '2': 'ABSTRACT',
+  '3': 'AUXILIARY',
+}
+
+/**
+ * attributeSyntax values of string syntaxes, whose rangeUpper is the maximum value length
+ */
+const STRING_SYNTAXES = ['2.5.5.3', '2.5.5.4', '2.5.5.5', '2.5.5.6', '2.5.5.12']
+
+/**
+ * Active Directory Schema Reader
+ *
+ * Converts the attributeSchema and classSchema entries of an Active Directory schema export
+ * (e.g. `ldifde -d CN=Schema,CN=Configuration,DC=example,DC=com`) to RFC 4512 attribute types
+ * and object classes, so that they can be validated and compared with OpenLDAP schemas.
+ *
+ * attributeSchema entries map attributeID, lDAPDisplayName, description (or adminDescription),
+ * attributeSyntax/oMSyntax (see getActiveDirectorySyntax), rangeUpper, isSingleValued,
+ * systemOnly and isDefunct. classSchema entries map governsID, lDAPDisplayName, description,
+ * subClassOf, objectClassCategory, mustContain/systemMustContain, mayContain/systemMayContain and
+ * isDefunct. Other attributes, such as auxiliaryClass or possSuperiors, have no RFC 4512 equivalent.
+ *
+ * An entry that cannot be converted is reported in the errors and does not stop reading.
+ *
+ * @example
+ * ```typescript
+ * const schema = new ActiveDirectorySchemaReader().read(readFileSync('ad-schema.ldf', 'utf-8'))
+ * console.log(schema.attributeTypes.length, schema.objectClasses.length, schema.errors.length)
+ * ```
+ */
+export class ActiveDirectorySchemaReader {
+  /**
+   * Read the schema entries of an LDIF text
+   *
+   * @param ldif - The LDIF text
+   * @returns The converted definitions, and the entries that could not be converted
+   * @throws {RFC4512ParserError} LDIF_ERROR when the LDIF itself is malformed
+   */
+  public read(ldif: string): ActiveDirectorySchemaInterface {
+    const schema: ActiveDirectorySchemaInterface = { attributeTypes: [], objectClasses: [], errors: [] }
+
+    for (const entry of LDIFReader.read(ldif)) {
+      this.readEntry(entry, schema)
+    }
+
+    return schema
+  }
+
+  /**
+   * Convert one LDIF entry into a schema
+   *
+   * Entries that are neither attributeSchema nor classSchema entries are ignored.
+   *
+   * @param entry - The LDIF entry
+   * @param schema - The schema to complete
+   */
+  public readEntry(entry: LDIFEntryInterface, schema: ActiveDirectorySchemaInterface): void {
+    const objectClasses = this.values(entry, 'objectClass').map(value => value.value.toLowerCase())
+
+    try {
+      if (objectClasses.includes('attributeschema')) {
+        schema.attributeTypes.push(this.convertAttributeSchema(entry))
+      } else if (objectClasses.includes('classschema')) {
+        schema.objectClasses.push(this.convertClassSchema(entry))
+      }
+    } catch (error) {
+      if (!(error instanceof ConversionError)) {
+        throw error
+      }
+      schema.errors.push({ attribute: error.attribute, line: error.line, value: error.schemaDefinition, error })
+    }
+  }
+
+  /**
+   * Convert an attributeSchema entry
+   *
+   * @private
+   * @param entry - The attributeSchema entry
+   * @returns The attribute type
+   * @throws {ConversionError} When a required attribute is missing or invalid
+   */
+  private convertAttributeSchema(entry: LDIFEntryInterface): LDAPAttributeTypeInterface {
+    const oid = this.required(entry, 'attributeID')
+    const name = this.required(entry, 'lDAPDisplayName')
+    const attributeSyntax = this.required(entry, 'attributeSyntax')
+    const oMSyntax = this.required(entry, 'oMSyntax')
+
+    this.validateIdentity(oid, name)
+
+    const syntaxOid = getActiveDirectorySyntax(attributeSyntax.value, oMSyntax.value)
+    if (!syntaxOid) {
+      throw new ConversionError(
+        `Unknown Active Directory syntax: attributeSyntax ${attributeSyntax.value}, oMSyntax ${oMSyntax.value}`,
+        RFC4512ErrorType.INVALID_FIELD,
+        attributeSyntax
+      )
+    }
+
+    const attributeType: LDAPAttributeTypeInterface = {
+      type: 'attributeType',
+      oid: oid.value,
+      name: name.value,
+      names: [name.value],
+      obsolete: this.flag(entry, 'isDefunct'),
+      syntax: { oid: syntaxOid },
+    }
+
+    const desc = this.value(entry, 'description') ?? this.value(entry, 'adminDescription')
+    if (desc) {
+      attributeType.desc = desc.value
+    }
+
+    const rangeUpper = this.value(entry, 'rangeUpper')
+    if (rangeUpper && STRING_SYNTAXES.includes(attributeSyntax.value.trim()) && /^\d+$/.test(rangeUpper.value)) {
+      attributeType.syntax!.length = Number(rangeUpper.value)
+    }
+
+    if (this.flag(entry, 'isSingleValued')) {
+      attributeType.singleValue = true
+    }
+
+    if (this.flag(entry, 'systemOnly')) {
+      attributeType.noUserModification = true
+    }
+
+    return attributeType
+  }
+
+  /**
+   * Convert a classSchema entry
+   *
+   * @private
+   * @param entry - The classSchema entry
+   * @returns The object class
+   * @throws {ConversionError} When a required attribute is missing or invalid
+   */
+  private convertClassSchema(entry: LDIFEntryInterface): LDAPObjectClassInterface {
+    const oid = this.required(entry, 'governsID')
+    const name = this.required(entry, 'lDAPDisplayName')
+
+    this.validateIdentity(oid, name)
+
+    const objectClass: LDAPObjectClassInterface = {
+      type: 'objectClass',
+      oid: oid.value,
+      name: name.value,
+      names: [name.value],
+      obsolete: this.flag(entry, 'isDefunct'),
+    }
+
+    const desc = this.value(entry, 'description') ?? this.value(entry, 'adminDescription')
+    if (desc) {
+      objectClass.desc = desc.value
+    }
+
+    // top is its own superior in Active Directory
+    const superior = this.value(entry, 'subClassOf')
+    if (superior && superior.value.toLowerCase() !== name.value.toLowerCase()) {
+      objectClass.sup = [superior.value]
+    }
+
+    const category = this.value(entry, 'objectClassCategory')
+    if (category) {
+      if (!(category.value in OBJECT_CLASS_CATEGORIES)) {
+        throw new ConversionError(`Invalid objectClassCategory: ${category.value}. Expected 0, 1, 2 or 3`, RFC4512ErrorType.INVALID_FIELD, category)
+      }
+      if (OBJECT_CLASS_CATEGORIES[category.value]) {
+        objectClass.objectClassType = OBJECT_CLASS_CATEGORIES[category.value]
+      }
+    }
+
+    const must = this.attributeList(entry, 'systemMustContain', 'mustContain')
+    if (must.length > 0) {
+      objectClass.must = must
+    }
+
+    const may = this.attributeList(entry, 'systemMayContain', 'mayContain')
+    if (may.length > 0) {
+      objectClass.may = may
+    }
+
+    return objectClass
+  }
+
+  /**
+   * Check the OID and lDAPDisplayName of a schema entry
+   *
+   * @private
+   * @param oid - The attributeID or governsID value
+   * @param name - The lDAPDisplayName value
+   * @throws {ConversionError} INVALID_OID or INVALID_NAME
+   */
+  private validateIdentity(oid: LDIFAttributeInterface, name: LDIFAttributeInterface): void {
+    const problem = validateNumericOid(oid.value)
+    if (problem) {
+      throw new ConversionError(`Invalid ${oid.name} format: ${oid.value} (${problem})`, RFC4512ErrorType.INVALID_OID, oid)
+    }
+
+    if (getOidReferenceForm(name.value) !== 'descr') {
+      throw new ConversionError(`Invalid lDAPDisplayName: ${name.value}. Must be a descriptor (a letter followed by letters, digits and hyphens)`, RFC4512ErrorType.INVALID_NAME, name)
+    }
+  }
+
+  /**
+   * Get the values of an attribute of an entry (attribute names being case-insensitive)
+   *
+   * @private
+   */
+  private values(entry: LDIFEntryInterface, name: string): LDIFAttributeInterface[] {
+    return entry.attributes.filter(attribute => attribute.name.toLowerCase() === name.toLowerCase())
+  }
+
+  /**
+   * Get the first value of an attribute of an entry
+   *
+   * @private
+   */
+  private value(entry: LDIFEntryInterface, name: string): LDIFAttributeInterface | undefined {
+    return this.values(entry, name)[0]
+  }
+
+  /**
+   * Get the first value of an attribute that the entry must have
+   *
+   * @private
+   * @throws {ConversionError} MISSING_FIELD, reported at the dn line of the entry
+   */
+  private required(entry: LDIFEntryInterface, name: string): LDIFAttributeInterface {
+    const value = this.value(entry, name)
+    if (!value) {
+      throw new ConversionError(`Missing ${name} in ${entry.dn}`, RFC4512ErrorType.MISSING_FIELD, { name, value: '', line: entry.line })
+    }
+    return value
+  }
+
+  /**
+   * Tell whether a boolean attribute of an entry is TRUE
+   *
+   * @private
+   */
+  private flag(entry: LDIFEntryInterface, name: string): boolean {
+    return this.value(entry, name)?.value.toUpperCase() === 'TRUE'
+  }
+
+  /**
+   * Gather the values of the system and regular variants of an attribute list, without duplicates
+   *
+   * @private
+   */
+  private attributeList(entry: LDIFEntryInterface, ...names: string[]): string[] {
+    const list: string[] = []
+    for (const { value } of names.flatMap(name => this.values(entry, name))) {
+      if (!list.some(item => item.toLowerCase() === value.toLowerCase())) {
+        list.push(value)
+      }
+    }
+    return list
+  }
+}
+
+/**
+ * Error raised while converting an entry, keeping the LDIF attribute at fault
+ */
+class ConversionError extends RFC4512ParserError {
+  public readonly attribute: string
+  public readonly line: number
+
+  public constructor(message: string, errorType: RFC4512ErrorType, attribute: LDIFAttributeInterface) {
+    super(message, errorType, attribute.value, { context: 'Active Directory schema conversion' })
+    this.attribute = attribute.name
+    this.line = attribute.line
+  }
+}
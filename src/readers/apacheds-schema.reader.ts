@@ -0,0 +1,371 @@
+import type { ParserBuildOptions } from 'peggy'
+import { RFC4512ErrorType, RFC4512ParserError } from '../errors'
+import { escapeQdstring } from '../functions'
+import type { ApacheDSSchemaInterface, LDIFAttributeInterface, LDIFEntryInterface, RFC4512ParserOptions } from '../interfaces'
+import RFC4512Parser from '../rfc4512.parser'
+import type { LDAPSchemaType } from '../types'
+import { LDIFReader } from './ldif.reader'
+
+/**
+ * How the values of an m-* attribute are written in the definition
+ *
+ * - qdescrs: quoted names, in parentheses when there are several
+ * - qdstring: quoted string, escaped
+ * - oids: OIDs or descriptors, `$` separated in parentheses when there are several
+ * - ruleids: rule IDs, space separated in parentheses when there are several
+ * - flag: the keyword alone, when the value is TRUE
+ * - keyword: the value itself, as a keyword (e.g. m-typeObjectClass: AUXILIARY)
+ * - usage: the attribute usage, also accepted as written by ApacheDS (e.g. DIRECTORY_OPERATION)
+ * - word: the value, unquoted
+ */
+type ClauseFormat = 'qdescrs' | 'qdstring' | 'oids' | 'ruleids' | 'flag' | 'keyword' | 'usage' | 'word'
+
+/**
+ * Attribute usages, keyed by their ApacheDS UsageEnum name
+ */
+const USAGES: Record<string, string> = {
+  USER_APPLICATIONS: 'userApplications',
+  DIRECTORY_OPERATION: 'directoryOperation',
+  DISTRIBUTED_OPERATION: 'distributedOperation',
+  DSA_OPERATION: 'dSAOperation',
+}
+
+/**
+ * Clause of an RFC 4512 definition, and the m-* attribute holding its values
+ */
+type Clause = [keyword: string, attribute: string, format: ClauseFormat]
+
+/**
+ * ApacheDS meta object classes, with the definition type of their entries, the attribute identifying the
+ * definition and its clauses in RFC 4512 order (keys are lowercase, object class names being case-insensitive)
+ */
+const META_OBJECT_CLASSES: Record<string, { type: LDAPSchemaType['type']; collection: keyof Omit<ApacheDSSchemaInterface, 'errors'>; id: string; clauses: Clause[] }> = {
+  metaattributetype: {
+    type: 'attributeType',
+    collection: 'attributeTypes',
+    id: 'm-oid',
+    clauses: [
+      ['NAME', 'm-name', 'qdescrs'],
+      ['DESC', 'm-description', 'qdstring'],
+      ['OBSOLETE', 'm-obsolete', 'flag'],
+      ['SUP', 'm-supAttributeType', 'oids'],
+      ['EQUALITY', 'm-equality', 'oids'],
+      ['ORDERING', 'm-ordering', 'oids'],
+      ['SUBSTR', 'm-substr', 'oids'],
+      ['SYNTAX', 'm-syntax', 'word'],
+      ['SINGLE-VALUE', 'm-singleValue', 'flag'],
+      ['COLLECTIVE', 'm-collective', 'flag'],
+      ['NO-USER-MODIFICATION', 'm-noUserModification', 'flag'],
+      ['USAGE', 'm-usage', 'usage'],
+    ],
+  },
+  metaobjectclass: {
+    type: 'objectClass',
+    collection: 'objectClasses',
+    id: 'm-oid',
+    clauses: [
+      ['NAME', 'm-name', 'qdescrs'],
+      ['DESC', 'm-description', 'qdstring'],
+      ['OBSOLETE', 'm-obsolete', 'flag'],
+      ['SUP', 'm-supObjectClass', 'oids'],
+      ['', 'm-typeObjectClass', 'keyword'],
+      ['MUST', 'm-must', 'oids'],
+      ['MAY', 'm-may', 'oids'],
+    ],
+  },
+  metasyntax: {
+    type: 'ldapSyntax',
+    collection: 'ldapSyntaxes',
+    id: 'm-oid',
+    clauses: [['DESC', 'm-description', 'qdstring']],
+  },
+  metamatchingrule: {
+    type: 'matchingRule',
+    collection: 'matchingRules',
+    id: 'm-oid',
+    clauses: [
+      ['NAME', 'm-name', 'qdescrs'],
+      ['DESC', 'm-description', 'qdstring'],
+      ['OBSOLETE', 'm-obsolete', 'flag'],
+      ['SYNTAX', 'm-syntax', 'word'],
+    ],
+  },
+  metaditcontentrule: {
+    type: 'ditContentRule',
+    collection: 'ditContentRules',
+    id: 'm-oid',
+    clauses: [
+      ['NAME', 'm-name', 'qdescrs'],
+      ['DESC', 'm-description', 'qdstring'],
+      ['OBSOLETE', 'm-obsolete', 'flag'],
+      ['AUX', 'm-aux', 'oids'],
+      ['MUST', 'm-must', 'oids'],
+      ['MAY', 'm-may', 'oids'],
+      ['NOT', 'm-not', 'oids'],
+    ],
+  },
+  metaditstructurerule: {
+    type: 'ditStructureRule',
+    collection: 'ditStructureRules',
+    id: 'm-ruleId',
+    clauses: [
+      ['NAME', 'm-name', 'qdescrs'],
+      ['DESC', 'm-description', 'qdstring'],
+      ['OBSOLETE', 'm-obsolete', 'flag'],
+      ['FORM', 'm-form', 'oids'],
+      ['SUP', 'm-supDITStructureRule', 'ruleids'],
+    ],
+  },
+  metanameform: {
+    type: 'nameForm',
+    collection: 'nameForms',
+    id: 'm-oid',
+    clauses: [
+      ['NAME', 'm-name', 'qdescrs'],
+      ['DESC', 'm-description', 'qdstring'],
+      ['OBSOLETE', 'm-obsolete', 'flag'],
+      ['OC', 'm-oc', 'oids'],
+      ['MUST', 'm-must', 'oids'],
+      ['MAY', 'm-may', 'oids'],
+    ],
+  },
+}
+
+/**
+ * Part of a built definition written from an m-* attribute value
+ */
+interface DefinitionSource {
+  start: number
+  end: number
+  attribute: LDIFAttributeInterface
+}
+
+/**
+ * ApacheDS Schema Reader
+ *
+ * Converts the meta schema entries of an ApacheDS `ou=schema` LDIF export (metaAttributeType,
+ * metaObjectClass, metaSyntax, metaMatchingRule, metaDITContentRule, metaDITStructureRule and
+ * metaNameForm entries, with their `m-oid`, `m-name`, `m-must`... attributes) to RFC 4512 definitions.
+ *
+ * Each entry is written as an RFC 4512 definition and parsed with RFC4512Parser, so converted
+ * definitions get the same validation as parsed ones. Other entries, such as metaSchema or
+ * metaComparator entries, are ignored. An entry that fails is reported in the errors, on the
+ * m-* attribute at fault when it can be told from the error, and does not stop reading.
+ *
+ * @example
+ * ```typescript
+ * const schema = new ApacheDSSchemaReader().read(readFileSync('ou=schema.ldif', 'utf-8'))
+ * console.log(schema.attributeTypes.length, schema.objectClasses.length, schema.errors.length)
+ * ```
+ */
+export class ApacheDSSchemaReader {
+  private readonly _parser: RFC4512Parser
+
+  /**
+   * Constructor - creates the parser used for every definition
+   *
+   * @param options - Parser configuration options
+   * @param pegOptions - PEG.js specific build options
+   */
+  public constructor(options?: RFC4512ParserOptions, pegOptions?: ParserBuildOptions) {
+    this._parser = new RFC4512Parser(options, pegOptions)
+  }
+
+  /**
+   * Read the meta schema entries of an LDIF text
+   *
+   * @param ldif - The LDIF text
+   * @returns The converted definitions grouped by kind, and the entries that could not be converted
+   * @throws {RFC4512ParserError} LDIF_ERROR when the LDIF itself is malformed
+   */
+  public read(ldif: string): ApacheDSSchemaInterface {
+    const schema: ApacheDSSchemaInterface = {
+      attributeTypes: [],
+      objectClasses: [],
+      ldapSyntaxes: [],
+      matchingRules: [],
+      ditContentRules: [],
+      ditStructureRules: [],
+      nameForms: [],
+      errors: [],
+    }
+
+    for (const entry of LDIFReader.read(ldif)) {
+      this.readEntry(entry, schema)
+    }
+
+    return schema
+  }
+
+  /**
+   * Convert one LDIF entry into a schema
+   *
+   * Entries that are not meta schema entries are ignored.
+   *
+   * @param entry - The LDIF entry
+   * @param schema - The schema to complete
+   */
+  public readEntry(entry: LDIFEntryInterface, schema: ApacheDSSchemaInterface): void {
+    const metaObjectClass = entry.attributes
+      .filter(attribute => attribute.name.toLowerCase() === 'objectclass')
+      .map(attribute => META_OBJECT_CLASSES[attribute.value.toLowerCase()])
+      .find(Boolean)
+
+    if (!metaObjectClass) {
+      return
+    }
+
+    if (this.values(entry, metaObjectClass.id).length === 0) {
+      schema.errors.push({
+        attribute: metaObjectClass.id,
+        line: entry.line,
+        value: '',
+        error: new RFC4512ParserError(`Missing ${metaObjectClass.id} in ${entry.dn}`, RFC4512ErrorType.MISSING_FIELD, '', { context: 'ApacheDS schema conversion' }),
+      })
+      return
+    }
+
+    const { definition, sources } = this.buildDefinition(entry, metaObjectClass.id, metaObjectClass.clauses)
+
+    try {
+      const parsed = this._parser.parseSchema(definition, metaObjectClass.type)
+      ;(schema[metaObjectClass.collection] as LDAPSchemaType[]).push(parsed)
+    } catch (error) {
+      if (!(error instanceof RFC4512ParserError)) {
+        throw error
+      }
+
+      const source = this.findSource(sources, error.position?.offset)
+      schema.errors.push({
+        attribute: source?.attribute.name ?? 'dn',
+        line: source?.attribute.line ?? entry.line,
+        value: definition,
+        error,
+      })
+    }
+  }
+
+  /**
+   * Write the RFC 4512 definition of a meta schema entry
+   *
+   * @private
+   * @param entry - The meta schema entry
+   * @param id - The attribute identifying the definition (m-oid or m-ruleId)
+   * @param clauses - The clauses of the definition
+   * @returns The definition, and the parts of it written from each m-* attribute value
+   */
+  private buildDefinition(entry: LDIFEntryInterface, id: string, clauses: Clause[]): { definition: string; sources: DefinitionSource[] } {
+    const sources: DefinitionSource[] = []
+    let definition = '('
+
+    const append = (text: string, attribute?: LDIFAttributeInterface) => {
+      definition += ' '
+      if (attribute) {
+        sources.push({ start: definition.length, end: definition.length + text.length, attribute })
+      }
+      definition += text
+    }
+
+    const list = (values: LDIFAttributeInterface[], write: (value: string) => string, separator: string) => {
+      if (values.length === 1) {
+        append(write(values[0].value), values[0])
+        return
+      }
+      append('(')
+      values.forEach((value, index) => {
+        if (index > 0 && separator) {
+          append(separator)
+        }
+        append(write(value.value), value)
+      })
+      append(')')
+    }
+
+    for (const identifier of this.values(entry, id)) {
+      append(identifier.value, identifier)
+    }
+
+    for (const [keyword, name, format] of clauses) {
+      const values = this.values(entry, name)
+      if (values.length === 0) {
+        continue
+      }
+
+      if (format === 'flag') {
+        if (values[0].value.toUpperCase() === 'TRUE') {
+          append(keyword, values[0])
+        }
+        continue
+      }
+
+      if (format === 'keyword') {
+        append(values[0].value.toUpperCase(), values[0])
+        continue
+      }
+
+      append(keyword)
+
+      switch (format) {
+        case 'qdescrs':
+          list(values, value => `'${value}'`, '')
+          break
+        case 'qdstring':
+          append(`'${escapeQdstring(values[0].value)}'`, values[0])
+          break
+        case 'oids':
+          list(values, value => value, '$')
+          break
+        case 'ruleids':
+          list(values, value => value, '')
+          break
+        case 'usage':
+          append(USAGES[values[0].value.toUpperCase()] ?? values[0].value, values[0])
+          break
+        case 'word': {
+          // ApacheDS keeps the syntax length in a separate attribute
+          const length = name === 'm-syntax' ? this.values(entry, 'm-length')[0] : undefined
+          append(length && length.value !== '0' ? `${values[0].value}{${length.value}}` : values[0].value, values[0])
+          break
+        }
+      }
+    }
+
+    append(')')
+
+    return { definition, sources }
+  }
+
+  /**
+   * Find the m-* attribute value at an offset of a built definition
+   *
+   * An offset between two values is attributed to the value before it.
+   *
+   * @private
+   * @param sources - The parts of the definition written from each attribute value
+   * @param offset - The error offset in the definition
+   * @returns The part of the definition, or undefined when the offset is unknown
+   */
+  private findSource(sources: DefinitionSource[], offset?: number): DefinitionSource | undefined {
+    if (offset === undefined) {
+      return sources[0]
+    }
+
+    return [...sources].reverse().find(source => source.start <= offset) ?? sources[0]
+  }
+
+  /**
+   * Get the values of an attribute of an entry (attribute names being case-insensitive)
+   *
+   * @private
+   */
+  private values(entry: LDIFEntryInterface, name: string): LDIFAttributeInterface[] {
+    return entry.attributes.filter(attribute => attribute.name.toLowerCase() === name.toLowerCase())
+  }
+
+  /**
+   * Get the parser used for every definition
+   */
+  public get parser(): RFC4512Parser {
+    return this._parser
+  }
+}
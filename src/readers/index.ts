@@ -0,0 +1,6 @@
+export * from './active-directory-schema.reader'
+export * from './apacheds-schema.reader'
+export * from './ldif.reader'
+export * from './olc-schema-config.reader'
+export * from './schema-file.reader'
+export * from './subschema.reader'
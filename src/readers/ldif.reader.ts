@@ -0,0 +1,314 @@
+import { RFC4512ErrorType, RFC4512ParserError } from '../errors'
+import type { LDIFAttributeInterface, LDIFEntryAttributeInterface, LDIFEntryInterface } from '../interfaces'
+
+/**
+ * Logical LDIF line being unfolded
+ */
+interface PendingLine {
+  text: string
+  line: number
+  comment: boolean
+}
+
+/**
+ * Entry being read, until the blank line that ends it
+ */
+interface PendingEntry {
+  dn?: string
+  line: number
+  attributes: LDIFAttributeInterface[]
+}
+
+/**
+ * LDIF Reader (RFC 2849)
+ *
+ * Reads LDIF text into entries: continuation lines are unfolded, comments are skipped
+ * and base64 (`::`) values are decoded. Line numbers of the source are kept on every
+ * entry and attribute value.
+ *
+ * Text is pushed in chunks of any size, and each call returns the entries completed so far,
+ * so large sources can be read without loading them at once; readStream does so for streams. Records without a dn, such as
+ * the `search:`/`result:` trailer written by ldapsearch, are skipped. readAttributeStream yields every attribute value
+ * as soon as it is completed, without keeping the entries, for entries holding many values.
+ *
+ * @example
+ * ```typescript
+ * // Whole text
+ * const entries = LDIFReader.read(readFileSync('core.ldif', 'utf-8'))
+ *
+ * // Chunks
+ * const reader = new LDIFReader()
+ * for (const chunk of chunks) {
+ *   entries.push(...reader.push(chunk))
+ * }
+ * entries.push(...reader.end())
+ *
+ * // Stream
+ * for await (const entry of LDIFReader.readStream(createReadStream('core.ldif'))) {
+ *   console.log(entry.dn)
+ * }
+ *
+ * // Stream of attribute values
+ * for await (const attribute of LDIFReader.readAttributeStream(createReadStream('bundle.ldif'))) {
+ *   console.log(attribute.dn, attribute.name, attribute.line)
+ * }
+ * ```
+ */
+export class LDIFReader {
+  private _buffer = ''
+  private _lineNumber = 0
+  private _pendingLine: PendingLine | null = null
+  private _pendingEntry: PendingEntry | null = null
+  private _completed: LDIFEntryInterface[] = []
+  private _completedAttributes: LDIFEntryAttributeInterface[] = []
+  private _streamAttributes = false
+  private _firstLine = true
+
+  /**
+   * Read a whole LDIF text
+   *
+   * @param ldif - The LDIF text
+   * @returns Every entry of the text, in source order
+   * @throws {RFC4512ParserError} LDIF_ERROR when a line is malformed
+   */
+  public static read(ldif: string): LDIFEntryInterface[] {
+    const reader = new LDIFReader()
+    return [...reader.push(ldif), ...reader.end()]
+  }
+
+  /**
+   * Read an LDIF stream, yielding every entry as soon as it is completed
+   *
+   * @param source - A Node Readable, or any iterable or async iterable of text or UTF-8 chunks
+   * @returns The entries of the stream, in source order
+   * @throws {RFC4512ParserError} LDIF_ERROR when a line is malformed
+   */
+  public static async *readStream(source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>): AsyncGenerator<LDIFEntryInterface> {
+    const reader = new LDIFReader()
+
+    for await (const text of LDIFReader.decode(source)) {
+      yield* reader.push(text)
+    }
+
+    yield* reader.end()
+  }
+
+  /**
+   * Read an LDIF stream, yielding every attribute value as soon as it is completed
+   *
+   * Values are not kept on their entry, so that an entry holding thousands of values
+   * (e.g. a schema bundle in a single olcSchemaConfig entry) is read value by value.
+   *
+   * @param source - A Node Readable, or any iterable or async iterable of text or UTF-8 chunks
+   * @returns The attribute values of the entries of the stream, with their entry, in source order
+   * @throws {RFC4512ParserError} LDIF_ERROR when a line is malformed
+   */
+  public static async *readAttributeStream(source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>): AsyncGenerator<LDIFEntryAttributeInterface> {
+    const reader = new LDIFReader()
+    reader._streamAttributes = true
+
+    for await (const text of LDIFReader.decode(source)) {
+      reader.push(text)
+      yield* reader.takeCompletedAttributes()
+    }
+
+    reader.end()
+    yield* reader.takeCompletedAttributes()
+  }
+
+  /**
+   * Decode the chunks of a stream to text
+   *
+   * @private
+   * @param source - A Node Readable, or any iterable or async iterable of text or UTF-8 chunks
+   */
+  private static async *decode(source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>): AsyncGenerator<string> {
+    // A multi-byte character may be split between two chunks
+    const decoder = new TextDecoder('utf-8')
+
+    for await (const chunk of source) {
+      yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+    }
+
+    yield decoder.decode()
+  }
+
+  /**
+   * Push the next chunk of LDIF text
+   *
+   * @param chunk - The next part of the LDIF text, which may end in the middle of a line
+   * @returns The entries completed by this chunk
+   * @throws {RFC4512ParserError} LDIF_ERROR when a line is malformed
+   */
+  public push(chunk: string): LDIFEntryInterface[] {
+    const text = this._buffer + chunk
+    let start = 0
+    let newline = text.indexOf('\n')
+
+    while (newline !== -1) {
+      this.readLine(text.slice(start, newline).replace(/\r$/, ''))
+      start = newline + 1
+      newline = text.indexOf('\n', start)
+    }
+
+    // Keep the incomplete last line for the next chunk
+    this._buffer = text.slice(start)
+
+    return this.takeCompleted()
+  }
+
+  /**
+   * Signal the end of the LDIF text
+   *
+   * @returns The last entries, completed by the end of the text
+   * @throws {RFC4512ParserError} LDIF_ERROR when a line is malformed
+   */
+  public end(): LDIFEntryInterface[] {
+    if (this._buffer) {
+      this.readLine(this._buffer.replace(/\r$/, ''))
+      this._buffer = ''
+    }
+
+    this.commitLine()
+    this.commitEntry()
+
+    return this.takeCompleted()
+  }
+
+  /**
+   * Read one physical line
+   *
+   * @private
+   * @param text - The line, without line terminator
+   */
+  private readLine(text: string): void {
+    this._lineNumber++
+
+    // Continuation line: a single leading space is dropped and the rest appended to the logical line
+    if (text.startsWith(' ')) {
+      if (!this._pendingLine) {
+        throw new RFC4512ParserError(
+          'Continuation line without a line to continue',
+          RFC4512ErrorType.LDIF_ERROR,
+          text,
+          { position: { line: this._lineNumber, column: 1, offset: 0 }, context: 'RFC 2849 - continuation lines start with a single space' }
+        )
+      }
+      this._pendingLine.text += text.slice(1)
+      return
+    }
+
+    this.commitLine()
+
+    if (text === '') {
+      this.commitEntry()
+      return
+    }
+
+    this._pendingLine = { text, line: this._lineNumber, comment: text.startsWith('#') }
+  }
+
+  /**
+   * Add the unfolded logical line to the current entry
+   *
+   * @private
+   */
+  private commitLine(): void {
+    const pending = this._pendingLine
+    this._pendingLine = null
+
+    if (!pending || pending.comment) {
+      return
+    }
+
+    const match = /^([A-Za-z0-9][A-Za-z0-9.;-]*)(::|:<|:) *(.*)$/.exec(pending.text)
+    if (!match) {
+      // A dash ends a modification in ldapmodify records
+      if (pending.text === '-') {
+        return
+      }
+
+      throw new RFC4512ParserError(
+        `Malformed LDIF line: ${pending.text}. Expected <attribute>: <value>`,
+        RFC4512ErrorType.LDIF_ERROR,
+        pending.text,
+        { position: { line: pending.line, column: 1, offset: 0 }, context: 'RFC 2849 - attrval-spec' }
+      )
+    }
+
+    const [, name, separator, rawValue] = match
+    if (separator === ':<') {
+      throw new RFC4512ParserError(
+        `URL values are not supported: ${pending.text}`,
+        RFC4512ErrorType.LDIF_ERROR,
+        pending.text,
+        { position: { line: pending.line, column: name.length + 1, offset: name.length }, context: 'RFC 2849 - value-spec' }
+      )
+    }
+
+    const value = separator === '::' ? Buffer.from(rawValue, 'base64').toString('utf-8') : rawValue
+
+    // The optional version line can only start the file
+    const firstLine = this._firstLine
+    this._firstLine = false
+    if (firstLine && name.toLowerCase() === 'version') {
+      return
+    }
+
+    if (!this._pendingEntry) {
+      this._pendingEntry = { line: pending.line, attributes: [] }
+    }
+
+    if (name.toLowerCase() === 'dn' && this._pendingEntry.dn === undefined && this._pendingEntry.attributes.length === 0) {
+      this._pendingEntry.dn = value
+      this._pendingEntry.line = pending.line
+      return
+    }
+
+    // Streamed values are not kept on their entry, and records without a dn are skipped
+    if (this._streamAttributes) {
+      if (this._pendingEntry.dn !== undefined) {
+        this._completedAttributes.push({ dn: this._pendingEntry.dn, entryLine: this._pendingEntry.line, name, value, line: pending.line })
+      }
+      return
+    }
+
+    this._pendingEntry.attributes.push({ name, value, line: pending.line })
+  }
+
+  /**
+   * Complete the current entry, skipping records without a dn
+   *
+   * @private
+   */
+  private commitEntry(): void {
+    const pending = this._pendingEntry
+    this._pendingEntry = null
+
+    if (pending?.dn !== undefined) {
+      this._completed.push({ dn: pending.dn, line: pending.line, attributes: pending.attributes })
+    }
+  }
+
+  /**
+   * Return and forget the completed entries
+   *
+   * @private
+   */
+  private takeCompleted(): LDIFEntryInterface[] {
+    const completed = this._completed
+    this._completed = []
+    return completed
+  }
+
+  /**
+   * Return and forget the completed attribute values, when streaming attribute values
+   *
+   * @private
+   */
+  private takeCompletedAttributes(): LDIFEntryAttributeInterface[] {
+    const completed = this._completedAttributes
+    this._completedAttributes = []
+    return completed
+  }
+}
@@ -0,0 +1,169 @@
+import type { ParserBuildOptions } from 'peggy'
+import { RFC4512ErrorType, RFC4512ParserError } from '../errors'
+import type { LDIFEntryInterface, LDIFSchemaEntryInterface, LDIFSchemaValueInterface, RFC4512ParserOptions } from '../interfaces'
+import RFC4512Parser from '../rfc4512.parser'
+import type { LDAPSchemaType } from '../types'
+import { LDIFReader } from './ldif.reader'
+
+/**
+ * olcSchemaConfig attributes holding schema definitions, with the definition type of their values
+ * (keys are lowercase, attribute names being case-insensitive)
+ */
+const SCHEMA_ATTRIBUTES: Record<string, LDAPSchemaType['type']> = {
+  olcattributetypes: 'attributeType',
+  olcobjectclasses: 'objectClass',
+  olcldapsyntaxes: 'ldapSyntax',
+  olcditcontentrules: 'ditContentRule',
+}
+
+/**
+ * OpenLDAP cn=config Schema Reader
+ *
+ * Reads the olcSchemaConfig entries of an OpenLDAP `cn=schema,cn=config` LDIF export,
+ * as written by slapcat or found in `schema/*.ldif`. The olcObjectIdentifier macros of an
+ * entry are loaded first, then every olcAttributeTypes, olcObjectClasses, olcLdapSyntaxes
+ * and olcDitContentRules value is parsed with RFC4512Parser.
+ *
+ * Results are grouped per entry and carry the line numbers of the LDIF source. A value that
+ * fails to parse is reported in the entry errors and does not stop reading. Macros are kept
+ * by the reader, so that entries can use the macros of the entries read before them.
+ *
+ * @example
+ * ```typescript
+ * const reader = new OlcSchemaConfigReader()
+ * for (const entry of reader.read(readFileSync('core.ldif', 'utf-8'))) {
+ *   console.log(entry.dn, entry.definitions.length, entry.errors.length)
+ * }
+ *
+ * // Large sources
+ * for await (const { dn, line, schema, error } of reader.readStream(createReadStream('bundle.ldif'))) {
+ *   console.log(dn, line, schema?.name ?? error?.message)
+ * }
+ * ```
+ */
+export class OlcSchemaConfigReader {
+  private readonly _parser: RFC4512Parser
+
+  /**
+   * Constructor - creates the parser used for every value
+   *
+   * @param options - Parser configuration options
+   * @param pegOptions - PEG.js specific build options
+   */
+  public constructor(options?: RFC4512ParserOptions, pegOptions?: ParserBuildOptions) {
+    this._parser = new RFC4512Parser(options, pegOptions)
+  }
+
+  /**
+   * Read the schema entries of an LDIF text
+   *
+   * @param ldif - The LDIF text
+   * @returns The entries holding schema definitions or objectIdentifier macros, in source order
+   * @throws {RFC4512ParserError} LDIF_ERROR when the LDIF itself is malformed
+   */
+  public read(ldif: string): LDIFSchemaEntryInterface[] {
+    const entries: LDIFSchemaEntryInterface[] = []
+
+    for (const entry of LDIFReader.read(ldif)) {
+      const schemaEntry = this.readEntry(entry)
+      if (schemaEntry) {
+        entries.push(schemaEntry)
+      }
+    }
+
+    return entries
+  }
+
+  /**
+   * Read the schema values of an LDIF stream
+   *
+   * Each olcObjectIdentifier macro and each parsed definition or per-definition error is yielded as soon as
+   * its value is read, so that large sources, including entries holding thousands of definitions, are parsed
+   * without loading them at once. Values are read in source order: macros are loaded where they are written,
+   * which slapcat and the `schema/*.ldif` files do before the definitions of their entry.
+   *
+   * @param source - A Node Readable, or any iterable or async iterable of text or UTF-8 chunks
+   * @returns The olcObjectIdentifier and definition values, with their entry, in source order
+   * @throws {RFC4512ParserError} LDIF_ERROR when the LDIF itself is malformed
+   */
+  public async *readStream(source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>): AsyncGenerator<LDIFSchemaValueInterface> {
+    for await (const { dn, entryLine, name: attribute, value, line } of LDIFReader.readAttributeStream(source)) {
+      const attributeName = attribute.toLowerCase()
+      if (attributeName === 'olcobjectidentifier' || SCHEMA_ATTRIBUTES[attributeName]) {
+        yield { dn, entryLine, attribute, line, value, ...this.readValue(attribute, value) }
+      }
+    }
+  }
+
+  /**
+   * Read the schema definitions of one LDIF entry
+   *
+   * @param entry - The LDIF entry
+   * @returns The schema entry, or null when the entry holds no schema attribute
+   */
+  public readEntry(entry: LDIFEntryInterface): LDIFSchemaEntryInterface | null {
+    const objectIdentifierValues = entry.attributes.filter(attribute => attribute.name.toLowerCase() === 'olcobjectidentifier')
+    const definitionValues = entry.attributes.filter(attribute => SCHEMA_ATTRIBUTES[attribute.name.toLowerCase()])
+
+    if (objectIdentifierValues.length === 0 && definitionValues.length === 0) {
+      return null
+    }
+
+    const schemaEntry: LDIFSchemaEntryInterface = { dn: entry.dn, line: entry.line, objectIdentifiers: {}, definitions: [], errors: [] }
+
+    // Macros come first, as OpenLDAP declares them before the definitions of the entry
+    for (const { name: attribute, value, line } of [...objectIdentifierValues, ...definitionValues]) {
+      const { schema, objectIdentifier, error } = this.readValue(attribute, value)
+      if (objectIdentifier) {
+        schemaEntry.objectIdentifiers[objectIdentifier.name] = objectIdentifier.oid
+      } else if (schema) {
+        schemaEntry.definitions.push({ attribute, line, value, schema })
+      } else if (error) {
+        schemaEntry.errors.push({ attribute, line, value, error })
+      }
+    }
+
+    return schemaEntry
+  }
+
+  /**
+   * Read one olcObjectIdentifier or definition value
+   *
+   * @private
+   * @param attribute - The attribute holding the value
+   * @param value - The value
+   * @returns The loaded macro or the parsed definition, or the error of the value
+   */
+  private readValue(attribute: string, value: string): Pick<LDIFSchemaValueInterface, 'schema' | 'objectIdentifier' | 'error'> {
+    try {
+      if (attribute.toLowerCase() !== 'olcobjectidentifier') {
+        return { schema: this._parser.parseSchema(value, SCHEMA_ATTRIBUTES[attribute.toLowerCase()]) }
+      }
+
+      const match = /^\s*(?:\{\d+\})?\s*(\S+)\s+(\S+)\s*$/.exec(value)
+      if (!match) {
+        throw new RFC4512ParserError(
+          `Invalid olcObjectIdentifier value: ${value}. Expected <name> <oid>`,
+          RFC4512ErrorType.SYNTAX_ERROR,
+          value,
+          { context: 'OpenLDAP olcObjectIdentifier values are written [{n}]<name> <oid>' }
+        )
+      }
+
+      this._parser.addObjectIdentifier(match[1], match[2])
+      return { objectIdentifier: { name: match[1], oid: this._parser.objectIdentifiers[match[1]] } }
+    } catch (error) {
+      if (!(error instanceof RFC4512ParserError)) {
+        throw error
+      }
+      return { error }
+    }
+  }
+
+  /**
+   * Get the parser used for every value, e.g. to inspect the loaded objectIdentifier macros
+   */
+  public get parser(): RFC4512Parser {
+    return this._parser
+  }
+}
@@ -0,0 +1,257 @@
+import type { ParserBuildOptions } from 'peggy'
+import { RFC4512ErrorType, RFC4512ParserError } from '../errors'
+import { getTextPosition } from '../functions'
+import type { RFC4512ParserOptions, SchemaFileInterface, SchemaFileValueInterface } from '../interfaces'
+import RFC4512Parser from '../rfc4512.parser'
+import type { LDAPSchemaType } from '../types'
+
+/**
+ * slapd.conf directives holding schema definitions, with the definition type of their values
+ * (keys are lowercase, directive names being case-insensitive)
+ */
+const SCHEMA_DIRECTIVES: Record<string, LDAPSchemaType['type']> = {
+  attributetype: 'attributeType',
+  attributetypes: 'attributeType',
+  objectclass: 'objectClass',
+  objectclasses: 'objectClass',
+  ldapsyntax: 'ldapSyntax',
+  ditcontentrule: 'ditContentRule',
+}
+
+/**
+ * Directive being read, until the next line that does not continue it
+ */
+interface PendingDirective {
+  keyword: string
+  line: number
+  offset: number
+  /** Lines read since the directive line, with blanked comments so that the statement keeps the offsets of the source file */
+  text: string
+  /** Length of the statement in text, up to the end of its last line */
+  end: number
+}
+
+/**
+ * Line by line reading of a schema file, returning every directive once the line following it is read
+ */
+interface SchemaFileLineReader {
+  push(rawLine: string): SchemaFileValueInterface[]
+  end(): SchemaFileValueInterface[]
+}
+
+/**
+ * slapd.conf Schema File Reader
+ *
+ * Reads slapd.conf-style `.schema` files, such as OpenLDAP `core.schema`, `cosine.schema` or `nis.schema`.
+ * Every `attributetype`, `objectclass`, `ldapsyntax` and `ditcontentrule` directive is parsed with RFC4512Parser,
+ * and `objectidentifier` directives declare macros for the directives that follow them.
+ *
+ * As in slapd.conf, a line starting with whitespace continues the directive of the previous line and lines
+ * starting with `#` are comments, also between the lines of a definition. A directive that cannot be read is
+ * reported in the errors, with its position in the source file, and does not stop reading.
+ *
+ * @example
+ * ```typescript
+ * const reader = new SchemaFileReader()
+ * const { definitions, errors } = reader.read(readFileSync('/etc/openldap/schema/core.schema', 'utf-8'))
+ * for (const { error } of errors) {
+ *   console.error(`line ${error.position?.line}: ${error.message}`)
+ * }
+ * ```
+ */
+export class SchemaFileReader {
+  private readonly _parser: RFC4512Parser
+
+  /**
+   * Constructor - creates the parser used for every definition
+   *
+   * @param options - Parser configuration options
+   * @param pegOptions - PEG.js specific build options
+   */
+  public constructor(options?: RFC4512ParserOptions, pegOptions?: ParserBuildOptions) {
+    this._parser = new RFC4512Parser(options, pegOptions)
+  }
+
+  /**
+   * Read a schema file
+   *
+   * @param source - The schema file text
+   * @returns The macros, definitions and errors of the file, in source order
+   */
+  public read(source: string): SchemaFileInterface {
+    const result: SchemaFileInterface = { objectIdentifiers: {}, definitions: [], errors: [] }
+    const lines = this.readLines()
+
+    for (const { keyword, line, value, schema, objectIdentifier, error } of [...source.split('\n').flatMap(rawLine => lines.push(rawLine)), ...lines.end()]) {
+      if (objectIdentifier) {
+        result.objectIdentifiers[objectIdentifier.name] = objectIdentifier.oid
+      } else if (schema) {
+        result.definitions.push({ keyword, line, value, schema })
+      } else if (error) {
+        result.errors.push({ keyword, line, value, error })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Read a schema file stream, yielding every directive as soon as it is completed
+   *
+   * A directive is completed by the first line that does not continue it, so only the directive
+   * being read is kept in memory.
+   *
+   * @param source - A Node Readable, or any iterable or async iterable of text or UTF-8 chunks
+   * @returns The macros, definitions and errors of the file, in source order
+   */
+  public async *readStream(source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>): AsyncGenerator<SchemaFileValueInterface> {
+    // A multi-byte character may be split between two chunks
+    const decoder = new TextDecoder('utf-8')
+    const lines = this.readLines()
+    // Beginning of the last line, which may go on in the next chunks
+    let rest = ''
+
+    for await (const chunk of source) {
+      const rawLines = (rest + (typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }))).split('\n')
+      rest = rawLines.pop() ?? ''
+      for (const rawLine of rawLines) {
+        yield* lines.push(rawLine)
+      }
+    }
+
+    yield* lines.push(rest + decoder.decode())
+    yield* lines.end()
+  }
+
+  /**
+   * Create the line by line reading shared by read and readStream
+   *
+   * @private
+   * @returns The line reader, whose methods return the directives completed by each line
+   */
+  private readLines(): SchemaFileLineReader {
+    let pending: PendingDirective | null = null
+    let offset = 0
+    let line = 0
+
+    return {
+      push: (rawLine: string) => {
+        const content = rawLine.replace(/\r$/, '')
+        const lineOffset = offset
+        line++
+        offset += rawLine.length + 1
+
+        if (content.startsWith('#')) {
+          if (pending) {
+            pending.text += `${' '.repeat(content.length)}${rawLine.slice(content.length)}\n`
+          }
+          return []
+        }
+
+        // A line starting with whitespace continues the directive, an empty line ends it
+        if (pending && /^\s/.test(content)) {
+          pending.text += `${rawLine}\n`
+          pending.end = lineOffset - pending.offset + content.length
+          return []
+        }
+
+        const values = pending ? [this.readDirective(pending)] : []
+        const keyword = /^\S+/.exec(content)
+        pending = keyword ? { keyword: keyword[0], line, offset: lineOffset, text: `${rawLine}\n`, end: content.length } : null
+
+        return values
+      },
+      end: () => pending ? [this.readDirective(pending)] : [],
+    }
+  }
+
+  /**
+   * Read one directive
+   *
+   * @private
+   * @param directive - The directive, with its lines
+   * @returns The loaded macro, the parsed definition or the error
+   */
+  private readDirective(directive: PendingDirective): SchemaFileValueInterface {
+    const statement = directive.text.slice(0, directive.end)
+    // The value starts at the first non-whitespace character following the keyword
+    const valueStart = directive.keyword.length + (/^\s*/.exec(statement.slice(directive.keyword.length))?.[0].length ?? 0)
+    const value = statement.slice(valueStart).trimEnd()
+    const keyword = directive.keyword.toLowerCase()
+    // Position in the source file of an offset in the statement, which starts at the beginning of a line
+    const locate = (offset: number) => {
+      const position = getTextPosition(statement, offset)
+      return { line: directive.line + position.line - 1, column: position.column, offset: directive.offset + offset }
+    }
+
+    const fail = (error: RFC4512ParserError): SchemaFileValueInterface => ({ keyword: directive.keyword, line: directive.line, value, error })
+
+    if (keyword === 'objectidentifier') {
+      const match = /^(\S+)\s+(\S+)$/.exec(value)
+      if (!match) {
+        return fail(new RFC4512ParserError(
+          `Invalid objectIdentifier directive: ${value}. Expected objectIdentifier <name> <oid>`,
+          RFC4512ErrorType.SYNTAX_ERROR,
+          value,
+          { position: locate(valueStart), context: 'slapd.conf objectIdentifier directive' }
+        ))
+      }
+
+      try {
+        this._parser.addObjectIdentifier(match[1], match[2])
+        return { keyword: directive.keyword, line: directive.line, value, objectIdentifier: { name: match[1], oid: this._parser.objectIdentifiers[match[1]] } }
+      } catch (error) {
+        return fail(this.relocateError(error, offset => locate(valueStart + offset)))
+      }
+    }
+
+    const type = SCHEMA_DIRECTIVES[keyword]
+    if (!type) {
+      return fail(new RFC4512ParserError(
+        `Unsupported schema directive: ${directive.keyword}`,
+        RFC4512ErrorType.SYNTAX_ERROR,
+        statement.trimEnd(),
+        {
+          position: locate(0),
+          context: 'Schema files hold attributetype, objectclass, ldapsyntax, ditcontentrule and objectidentifier directives',
+        }
+      ))
+    }
+
+    try {
+      return { keyword: directive.keyword, line: directive.line, value, schema: this._parser.parseSchema(value, type) }
+    } catch (error) {
+      return fail(this.relocateError(error, offset => locate(valueStart + offset)))
+    }
+  }
+
+  /**
+   * Move a parser error positioned in a definition to its position in the source file
+   *
+   * Errors without a position are positioned at the start of the definition.
+   *
+   * @private
+   * @param error - The parser error, positioned relative to the definition text
+   * @param locate - Position in the source file of an offset in the definition text
+   * @returns The error positioned in the source file
+   * @throws Rethrows errors that are not RFC4512ParserError
+   */
+  private relocateError(error: unknown, locate: (offset: number) => { line: number; column: number; offset: number }): RFC4512ParserError {
+    if (!(error instanceof RFC4512ParserError)) {
+      throw error
+    }
+
+    return new RFC4512ParserError(error.message, error.errorType, error.schemaDefinition, {
+      position: locate(error.position?.offset ?? 0),
+      context: error.context,
+      cause: error.cause,
+    })
+  }
+
+  /**
+   * Get the parser used for every definition, e.g. to inspect the loaded objectIdentifier macros
+   */
+  public get parser(): RFC4512Parser {
+    return this._parser
+  }
+}
@@ -0,0 +1,163 @@
+import type { ParserBuildOptions } from 'peggy'
+import { RFC4512ParserError } from '../errors'
+import type { LDIFEntryInterface, LDIFSchemaValueInterface, RFC4512ParserOptions, SubschemaInterface } from '../interfaces'
+import RFC4512Parser from '../rfc4512.parser'
+import type { LDAPSchemaType } from '../types'
+import { LDIFReader } from './ldif.reader'
+
+/**
+ * Lists of the subschema holding parsed definitions
+ */
+type SubschemaCollection = Exclude<keyof SubschemaInterface, 'dns' | 'errors'>
+
+/**
+ * Subschema subentry attributes (RFC 4512 Section 4.2), with the definition type of their values
+ * and the list receiving them (keys are lowercase, attribute names being case-insensitive)
+ */
+const SUBSCHEMA_ATTRIBUTES: Record<string, { type: LDAPSchemaType['type']; collection: SubschemaCollection }> = {
+  attributetypes: { type: 'attributeType', collection: 'attributeTypes' },
+  objectclasses: { type: 'objectClass', collection: 'objectClasses' },
+  ldapsyntaxes: { type: 'ldapSyntax', collection: 'ldapSyntaxes' },
+  matchingrules: { type: 'matchingRule', collection: 'matchingRules' },
+  matchingruleuse: { type: 'matchingRuleUse', collection: 'matchingRuleUses' },
+  ditcontentrules: { type: 'ditContentRule', collection: 'ditContentRules' },
+  ditstructurerules: { type: 'ditStructureRule', collection: 'ditStructureRules' },
+  nameforms: { type: 'nameForm', collection: 'nameForms' },
+}
+
+/**
+ * Subschema Subentry Reader
+ *
+ * Reads the LDIF dump of a subschema subentry, as returned by
+ * `ldapsearch -b cn=Subschema -s base '(objectClass=subschema)' +`. Every value of the
+ * attributeTypes, objectClasses, ldapSyntaxes, matchingRules, matchingRuleUse, dITContentRules,
+ * dITStructureRules and nameForms attributes is parsed with RFC4512Parser, as the definition
+ * kind of its attribute.
+ *
+ * Definitions are grouped by kind. A value that fails to parse is reported in the errors,
+ * with its attribute and line number, and does not stop reading the dump.
+ *
+ * @example
+ * ```typescript
+ * const subschema = new SubschemaReader().read(readFileSync('subschema.ldif', 'utf-8'))
+ * console.log(subschema.attributeTypes.length, subschema.objectClasses.length, subschema.errors.length)
+ *
+ * // Large dumps
+ * for await (const { attribute, line, schema, error } of new SubschemaReader().readStream(createReadStream('subschema.ldif'))) {
+ *   console.log(attribute, line, schema?.name ?? error?.message)
+ * }
+ * ```
+ */
+export class SubschemaReader {
+  private readonly _parser: RFC4512Parser
+
+  /**
+   * Constructor - creates the parser used for every value
+   *
+   * @param options - Parser configuration options
+   * @param pegOptions - PEG.js specific build options
+   */
+  public constructor(options?: RFC4512ParserOptions, pegOptions?: ParserBuildOptions) {
+    this._parser = new RFC4512Parser(options, pegOptions)
+  }
+
+  /**
+   * Read the subschema subentries of an LDIF text
+   *
+   * Definitions of several subentries are gathered in the same lists.
+   *
+   * @param ldif - The LDIF text
+   * @returns The definitions grouped by kind, and the values that could not be parsed
+   * @throws {RFC4512ParserError} LDIF_ERROR when the LDIF itself is malformed
+   */
+  public read(ldif: string): SubschemaInterface {
+    const subschema: SubschemaInterface = {
+      dns: [],
+      attributeTypes: [],
+      objectClasses: [],
+      ldapSyntaxes: [],
+      matchingRules: [],
+      matchingRuleUses: [],
+      ditContentRules: [],
+      ditStructureRules: [],
+      nameForms: [],
+      errors: [],
+    }
+
+    for (const entry of LDIFReader.read(ldif)) {
+      this.readEntry(entry, subschema)
+    }
+
+    return subschema
+  }
+
+  /**
+   * Read the definitions of an LDIF stream
+   *
+   * Each parsed definition or per-definition error is yielded as soon as its value is read,
+   * so that large dumps are parsed without loading them at once.
+   *
+   * @param source - A Node Readable, or any iterable or async iterable of text or UTF-8 chunks
+   * @returns The definition values, with their entry, in source order
+   * @throws {RFC4512ParserError} LDIF_ERROR when the LDIF itself is malformed
+   */
+  public async *readStream(source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>): AsyncGenerator<LDIFSchemaValueInterface> {
+    for await (const { dn, entryLine, name: attribute, value, line } of LDIFReader.readAttributeStream(source)) {
+      if (SUBSCHEMA_ATTRIBUTES[attribute.toLowerCase()]) {
+        yield { dn, entryLine, attribute, line, value, ...this.readValue(attribute, value) }
+      }
+    }
+  }
+
+  /**
+   * Read the schema definitions of one LDIF entry into a subschema
+   *
+   * Entries without subschema attributes are ignored.
+   *
+   * @param entry - The LDIF entry
+   * @param subschema - The subschema to complete
+   */
+  public readEntry(entry: LDIFEntryInterface, subschema: SubschemaInterface): void {
+    const values = entry.attributes.filter(attribute => SUBSCHEMA_ATTRIBUTES[attribute.name.toLowerCase()])
+    if (values.length === 0) {
+      return
+    }
+
+    subschema.dns.push(entry.dn)
+
+    for (const { name: attribute, value, line } of values) {
+      const { schema, error } = this.readValue(attribute, value)
+      if (schema) {
+        ;(subschema[SUBSCHEMA_ATTRIBUTES[attribute.toLowerCase()].collection] as LDAPSchemaType[]).push(schema)
+      } else if (error) {
+        subschema.errors.push({ attribute, line, value, error })
+      }
+    }
+  }
+
+  /**
+   * Parse one definition value as the definition kind of its attribute
+   *
+   * @private
+   * @param attribute - The subschema attribute holding the value
+   * @param value - The value
+   * @returns The parsed definition, or the error of the value
+   */
+  private readValue(attribute: string, value: string): Pick<LDIFSchemaValueInterface, 'schema' | 'error'> {
+    try {
+      return { schema: this._parser.parseSchema(value, SUBSCHEMA_ATTRIBUTES[attribute.toLowerCase()].type) }
+    } catch (error) {
+      if (!(error instanceof RFC4512ParserError)) {
+        throw error
+      }
+      return { error }
+    }
+  }
+
+  /**
+   * Get the parser used for every value
+   */
+  public get parser(): RFC4512Parser {
+    return this._parser
+  }
+}
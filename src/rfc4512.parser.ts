@@ -1,8 +1,35 @@
 import { generate, type Parser, type ParserBuildOptions } from 'peggy'
 import { readFileSync } from 'node:fs'
 import path from 'node:path'
-import { RFC4512ParserError, RFC4512ErrorType, type RFC4512ParserOptions } from './interfaces'
+import { RFC4512ParserError, RFC4512ErrorType, type LDAPMatchingRuleInterface, type LDAPMatchingRuleUseInterface, type LDAPDITContentRuleInterface,
+  type LDAPDITStructureRuleInterface, type LDAPNameFormInterface, type RFC4512ParserOptions, type SchemaDefinitionRangeInterface,
+  type SchemaTextInterface, type SchemaTextValueInterface } from './interfaces'
 import type { LDAPSchemaType } from './types'
+import { getOidReferenceForm } from './functions/get-oid-reference-form.function'
+import { getTextPosition } from './functions/get-text-position.function'
+import { hasSchemaOid } from './functions/has-schema-oid.function'
+import { splitSchemaDefinitions } from './functions/split-schema-definitions.function'
+import { validateNumericOid } from './functions/validate-numeric-oid.function'
+import { LDIFReader } from './readers/ldif.reader'
+
+/**
+ * Grammar start rule used for each schema definition type
+ *
+ * The default 'start' rule detects the definition type from its content. Some
+ * definitions are ambiguous (a matching rule reads like an attribute type), so
+ * callers that know the type (e.g. from the matchingRules attribute it was read
+ * from) select the definition rule directly.
+ */
+const START_RULES: Record<LDAPSchemaType['type'], string> = {
+  objectClass: 'objectClassDefinition',
+  attributeType: 'attributeTypeDefinition',
+  ldapSyntax: 'ldapSyntaxDefinition',
+  matchingRule: 'matchingRuleDefinition',
+  matchingRuleUse: 'matchingRuleUseDefinition',
+  ditContentRule: 'ditContentRuleDefinition',
+  ditStructureRule: 'ditStructureRuleDefinition',
+  nameForm: 'nameFormDefinition',
+}
 
 /**
  * RFC 4512 LDAP Schema Parser
@@ -43,6 +70,7 @@ import type { LDAPSchemaType } from './types'
 export class RFC4512Parser {
   private readonly _parser: Parser
   private readonly _options: RFC4512ParserOptions
+  private readonly _objectIdentifiers = new Map<string, { name: string; oid: string }>()
 
   /**
    * Constructor - loads and compiles the PEG.js grammar
@@ -56,10 +84,17 @@ export class RFC4512Parser {
       ...options
     }
 
+    for (const [name, oid] of Object.entries(this._options.objectIdentifiers ?? {})) {
+      this.addObjectIdentifier(name, oid)
+    }
+
     try {
       const grammarPath = path.join(__dirname, './_grammars/rfc4512.pegjs')
       const grammar = readFileSync(grammarPath, 'utf-8')
-      this._parser = generate(grammar, pegOptions)
+      this._parser = generate(grammar, {
+        ...pegOptions,
+        allowedStartRules: ['start', ...Object.values(START_RULES)],
+      })
     } catch (error) {
       throw new RFC4512ParserError(
         `Error loading grammar: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -115,14 +150,276 @@ export class RFC4512Parser {
     })
   }
 
+  /**
+   * Expand an OpenLDAP objectIdentifier macro
+   *
+   * @private
+   * @param value - The OID as written, e.g. MyAttrs or MyAttrs:3
+   * @returns The numeric OID, or null when the value does not start with a known macro
+   */
+  private expandOidMacro(value: string): string | null {
+    const separator = value.indexOf(':')
+    const name = separator === -1 ? value : value.slice(0, separator)
+    const macro = this._objectIdentifiers.get(name.toLowerCase())
+    if (!macro) {
+      return null
+    }
+
+    return separator === -1 ? macro.oid : `${macro.oid}.${value.slice(separator + 1)}`
+  }
+
+  /**
+   * Define an OpenLDAP objectIdentifier macro
+   *
+   * Equivalent to the slapd.conf `objectIdentifier <name> <oid>` directive. Macro names are
+   * case-insensitive, and a macro redefined later replaces the previous definition.
+   *
+   * @param name - The macro name, e.g. MyAttrs
+   * @param oid - The numeric OID, or a form using a macro defined before, e.g. MyRoot:1
+   * @throws {RFC4512ParserError} When the OID uses an unknown macro or is not a valid numeric OID
+   *
+   * @example
+   * ```typescript
+   * parser.addObjectIdentifier('MyRoot', '1.3.6.1.4.1.9999')
+   * parser.addObjectIdentifier('MyAttrs', 'MyRoot:1')
+   * parser.parseSchema("( MyAttrs:3 NAME 'myAttr' SUP name )").oid // '1.3.6.1.4.1.9999.1.3'
+   * ```
+   */
+  public addObjectIdentifier(name: string, oid: string): void {
+    const definition = `objectIdentifier ${name} ${oid}`
+
+    if (!/^[a-zA-Z][a-zA-Z0-9_-]*$/.test(name)) {
+      throw new RFC4512ParserError(
+        `Invalid objectIdentifier macro name: ${name}. Must start with a letter and contain only letters, numbers, hyphens, and underscores`,
+        RFC4512ErrorType.INVALID_NAME,
+        definition
+      )
+    }
+
+    const expanded = /^[a-zA-Z]/.test(oid) ? this.expandOidMacro(oid) : oid
+    if (expanded === null) {
+      throw new RFC4512ParserError(
+        `Unknown objectIdentifier macro in ${oid}. Macros must be defined before they are used`,
+        RFC4512ErrorType.INVALID_OID,
+        definition,
+        { context: 'OpenLDAP objectIdentifier macros' }
+      )
+    }
+
+    this.validateOid(expanded, definition, { example: '1.3.6.1.4.1.9999', context: 'OpenLDAP objectIdentifier macros', allowOpenLDAPOid: false })
+    this._objectIdentifiers.set(name.toLowerCase(), { name, oid: expanded })
+  }
+
+  /**
+   * Expand the objectIdentifier macros of the references to other schema elements
+   *
+   * References written as a macro followed by a numeric suffix (e.g. SUP MyAttrs:1) are
+   * replaced by their numeric OID, names without suffix being descriptors. The macro forms
+   * are kept in referenceMacros for round-tripping. OpenLDAP configuration OIDs are kept as
+   * written unless their prefix is a known macro.
+   *
+   * @private
+   * @param schema - The parsed definition, updated in place
+   * @param schemaDefinition - The original schema definition, for error reporting
+   * @throws {RFC4512ParserError} INVALID_OID error when a reference uses an unknown macro
+   */
+  private expandReferenceMacros(schema: LDAPSchemaType, schemaDefinition: string): void {
+    const expand = (reference: string): string => {
+      if (!/^[a-zA-Z][a-zA-Z0-9_-]*:/.test(reference)) {
+        return reference
+      }
+
+      const expanded = this.expandOidMacro(reference)
+      if (expanded === null && !/^OLcfg(?:Ov|Db|Gl)(?:At|Oc):/.test(reference)) {
+        throw new RFC4512ParserError(
+          `Unknown objectIdentifier macro in reference ${reference}. Define it with addObjectIdentifier or loadObjectIdentifiers`,
+          RFC4512ErrorType.INVALID_OID,
+          schemaDefinition,
+          { context: 'OpenLDAP objectIdentifier macros' }
+        )
+      }
+      return expanded ?? reference
+    }
+
+    // Macro forms per clause: the reference of single clauses, one entry per reference of list clauses, null when not a macro
+    const macros: Record<string, string | (string | null)[]> = {}
+    // Absent clauses are null, and kept so
+    const one = (clause: string, reference?: string) => {
+      if (!reference) {
+        return reference
+      }
+      const expanded = expand(reference)
+      if (expanded !== reference) {
+        macros[clause] = reference
+      }
+      return expanded
+    }
+    const list = (clause: string, references?: string[]) => {
+      if (!references) {
+        return references
+      }
+      const expanded = references.map(expand)
+      if (expanded.some((value, index) => value !== references[index])) {
+        macros[clause] = references.map((reference, index) => (expanded[index] !== reference ? reference : null))
+      }
+      return expanded
+    }
+
+    switch (schema.type) {
+      case 'objectClass':
+        Object.assign(schema, { sup: list('sup', schema.sup), must: list('must', schema.must), may: list('may', schema.may) })
+        break
+      case 'attributeType':
+        Object.assign(schema, {
+          sup: one('sup', schema.sup),
+          equality: one('equality', schema.equality),
+          ordering: one('ordering', schema.ordering),
+          substr: one('substr', schema.substr),
+        })
+        break
+      case 'matchingRuleUse':
+        Object.assign(schema, { applies: list('applies', schema.applies) })
+        break
+      case 'ditContentRule':
+        Object.assign(schema, { aux: list('aux', schema.aux), must: list('must', schema.must), may: list('may', schema.may), not: list('not', schema.not) })
+        break
+      case 'ditStructureRule':
+        Object.assign(schema, { form: one('form', schema.form) })
+        break
+      case 'nameForm':
+        Object.assign(schema, { oc: one('oc', schema.oc), must: list('must', schema.must), may: list('may', schema.may) })
+        break
+    }
+
+    if (Object.keys(macros).length > 0) {
+      Object.assign(schema, { referenceMacros: macros })
+    }
+  }
+
+  /**
+   * Load OpenLDAP objectIdentifier macros from schema text
+   *
+   * Reads slapd.conf style `objectIdentifier <name> <oid>` lines and cn=config LDIF
+   * `olcObjectIdentifier: [{n}]<name> <oid>` values, in order. Other lines are ignored,
+   * so a whole .schema or LDIF file can be passed. Text holding `dn:` lines is read as
+   * LDIF, so that folded and base64 encoded values are loaded too.
+   *
+   * @param source - The schema text
+   * @returns The number of macros loaded
+   * @throws {RFC4512ParserError} When a macro is invalid, or LDIF_ERROR when the LDIF is malformed
+   */
+  public loadObjectIdentifiers(source: string): number {
+    if (/^dn::?/im.test(source)) {
+      const values = LDIFReader.read(source).flatMap(entry => entry.attributes.filter(attribute => attribute.name.toLowerCase() === 'olcobjectidentifier'))
+
+      for (const { value } of values) {
+        const match = /^\s*(?:\{\d+\})?\s*(\S+)\s+(\S+)\s*$/.exec(value)
+        if (!match) {
+          throw new RFC4512ParserError(
+            `Invalid olcObjectIdentifier value: ${value}. Expected <name> <oid>`,
+            RFC4512ErrorType.SYNTAX_ERROR,
+            value,
+            { context: 'OpenLDAP olcObjectIdentifier values are written [{n}]<name> <oid>' }
+          )
+        }
+        this.addObjectIdentifier(match[1], match[2])
+      }
+
+      return values.length
+    }
+
+    const objectIdentifierPattern = /^\s*(?:objectIdentifier\s+|olcObjectIdentifier:\s*(?:\{\d+\})?)(\S+)\s+(\S+)\s*$/i
+    let count = 0
+
+    for (const line of source.split(/\r?\n/)) {
+      const match = objectIdentifierPattern.exec(line)
+      if (match) {
+        this.addObjectIdentifier(match[1], match[2])
+        count++
+      }
+    }
+
+    return count
+  }
+
+  /**
+   * Validate an OID against the RFC 4512 numericoid production
+   *
+   * In relaxed mode, OpenLDAP configuration OIDs (e.g. OLcfgOvAt:18.1) are also accepted,
+   * their numeric part being validated the same way.
+   *
+   * @private
+   * @param oid - The OID to validate
+   * @param schemaDefinition - The original schema definition, for error reporting
+   * @param options - Error reporting options
+   * @param options.label - Name of the validated value in error messages
+   * @param options.example - Example of a valid OID for this definition kind
+   * @param options.requirement - Requirement stated in error messages, followed by the valid formats
+   * @param options.context - RFC reference added to the error context
+   * @param options.allowOpenLDAPOid - Whether OpenLDAP configuration OIDs are accepted in relaxed mode
+   * @throws {RFC4512ParserError} INVALID_OID error naming the offending arc
+   */
+  private validateOid(
+    oid: string,
+    schemaDefinition: string,
+    options: { label?: string; example: string; requirement?: string; context?: string; allowOpenLDAPOid?: boolean },
+  ): void {
+    const { label = 'OID', example, requirement = 'Must follow', context = 'RFC 4512 - OID validation', allowOpenLDAPOid = true } = options
+    const acceptOpenLDAPOid = allowOpenLDAPOid && this._options.relaxedMode
+    const openldapOid = acceptOpenLDAPOid ? /^OLcfg(?:Ov|Db|Gl)(?:At|Oc):(.*)$/.exec(oid) : null
+    const problem = openldapOid ? validateNumericOid(openldapOid[1], 1) : validateNumericOid(oid)
+
+    if (problem) {
+      const validFormats = acceptOpenLDAPOid
+        ? `dotted decimal notation (e.g., ${example}) or OpenLDAP configuration format (e.g., OLcfgOvAt:18.1)`
+        : `dotted decimal notation (e.g., ${example})`
+
+      throw new RFC4512ParserError(
+        `Invalid ${label} format: ${oid} (${problem}). ${requirement} ${validFormats}`,
+        RFC4512ErrorType.INVALID_OID,
+        schemaDefinition,
+        { context: `${context} (relaxedMode: ${this._options.relaxedMode})` }
+      )
+    }
+  }
+
+  /**
+   * Validate a reference to another schema element when it is written as an OID
+   *
+   * References made of digits and dots (and OpenLDAP configuration OIDs in relaxed mode) are validated
+   * against the numericoid production, so that a malformed OID such as `2..5` is reported with its
+   * offending arc instead of as an invalid name. Descriptors are left to the naming checks of the clause.
+   *
+   * @private
+   * @param reference - The reference, e.g. a SUP, MUST or EQUALITY value
+   * @param schemaDefinition - The original schema definition, for error reporting
+   * @param options - Error reporting options
+   * @param options.clause - Keyword of the clause holding the reference, e.g. MUST
+   * @param options.example - Example of a valid OID for this clause
+   * @param options.context - RFC reference added to the error context
+   * @returns true when the reference is written as an OID, false when it is left to the naming checks
+   * @throws {RFC4512ParserError} INVALID_OID error naming the offending arc
+   */
+  private validateOidReference(reference: string, schemaDefinition: string, options: { clause: string; example: string; context: string }): boolean {
+    const openldapOid = this._options.relaxedMode && /^OLcfg(?:Ov|Db|Gl)(?:At|Oc):/.test(reference)
+    if (!openldapOid && !/^[0-9.]+$/.test(reference)) {
+      return false
+    }
+
+    this.validateOid(reference, schemaDefinition, { label: `${options.clause} OID`, example: options.example, context: options.context })
+    return true
+  }
+
   /**
    * Parse an LDAP schema definition
    *
    * @param schemaDefinition - The schema definition to parse (supports both RFC 4512 format and OpenLDAP cn=config format with index prefixes)
+   * @param type - Expected definition type; detected from the definition content when omitted.
+   *               Required for matching rules with a NAME, which cannot be told apart from attribute types.
    * @returns Parsed schema data
    * @throws {RFC4512ParserError} When parsing fails with detailed error information
    */
-  public parseSchema<T extends LDAPSchemaType>(schemaDefinition: string): T {
+  public parseSchema<T extends LDAPSchemaType>(schemaDefinition: string, type?: T['type']): T {
     try {
       // Clean input by removing OpenLDAP prefixes and extra whitespace
       let cleanInput = this.removeOpenLDAPPrefix(schemaDefinition).trim()
@@ -151,19 +448,67 @@ export class RFC4512Parser {
       }
 
       // Parse with PEG.js grammar
-      const parsed: T = this._parser.parse(cleanInput)
+      // Parser options are forwarded so that the grammar can apply the optional strict checks
+      const parsed: T = this._parser.parse(cleanInput, {
+        ...this._options,
+        startRule: type ? START_RULES[type] : 'start',
+      })
+
+      // Expand OpenLDAP objectIdentifier macros, keeping the macro form for round-tripping
+      // OpenLDAP configuration OIDs are kept as written unless their prefix is a known macro
+      if (parsed.type !== 'ditStructureRule' && /^[a-zA-Z]/.test(parsed.oid)) {
+        const expanded = this.expandOidMacro(parsed.oid)
+        if (expanded !== null) {
+          Object.assign(parsed, { oid: expanded, oidMacro: parsed.oid })
+        } else if (!/^OLcfg(?:Ov|Db|Gl)(?:At|Oc):/.test(parsed.oid)) {
+          throw new RFC4512ParserError(
+            `Unknown objectIdentifier macro in OID ${parsed.oid}. Define it with addObjectIdentifier or loadObjectIdentifiers`,
+            RFC4512ErrorType.INVALID_OID,
+            schemaDefinition,
+            { context: 'OpenLDAP objectIdentifier macros' }
+          )
+        }
+      }
+
+      // SYNTAX may use a macro too, other names being OpenLDAP syntax names
+      if (parsed.type === 'attributeType' && parsed.syntax && /^[a-zA-Z]/.test(parsed.syntax.oid)) {
+        const expanded = this.expandOidMacro(parsed.syntax.oid)
+        if (expanded !== null) {
+          parsed.syntax = { ...parsed.syntax, oid: expanded, oidMacro: parsed.syntax.oid }
+        }
+      }
+
+      if (parsed.type === 'matchingRule' && parsed.syntax && /^[a-zA-Z]/.test(parsed.syntax)) {
+        const expanded = this.expandOidMacro(parsed.syntax)
+        if (expanded !== null) {
+          Object.assign(parsed, { syntax: expanded, syntaxMacro: parsed.syntax })
+        }
+      }
+
+      // References to other schema elements may use a macro followed by a suffix, e.g. SUP MyAttrs:1
+      this.expandReferenceMacros(parsed, schemaDefinition)
 
       // Basic validation of parsed data
-      if (!parsed.oid) {
+      // DIT structure rules are identified by an integer rule ID instead of an OID
+      if (parsed.type === 'ditStructureRule') {
+        if (!Number.isSafeInteger(parsed.ruleId)) {
+          throw new RFC4512ParserError(
+            'Missing or invalid rule ID in DIT structure rule definition',
+            RFC4512ErrorType.MISSING_FIELD,
+            schemaDefinition,
+            { context: 'RFC 4512 Section 4.1.7.1 - DIT structure rules are identified by a non-negative integer rule ID' }
+          )
+        }
+      } else if (!parsed.oid) {
         throw new RFC4512ParserError(
           'Missing OID in schema definition',
           RFC4512ErrorType.MISSING_FIELD,
           schemaDefinition,
-          { context: 'OID field is required for all LDAP schema definitions' }
+          { context: 'OID field is required for all LDAP schema definitions except DIT structure rules' }
         )
       }
 
-      if (parsed.type !== 'ldapSyntax' && !parsed.name) {
+      if ((parsed.type === 'objectClass' || parsed.type === 'attributeType') && !parsed.name) {
         throw new RFC4512ParserError(
           'Missing NAME in schema definition',
           RFC4512ErrorType.MISSING_FIELD,
@@ -190,27 +535,8 @@ export class RFC4512Parser {
           )
         }
 
-        // RFC 4512: Validate OID format (dotted decimal notation)
-        // In relaxed mode, also allow OpenLDAP configuration OIDs
-        const oidPattern = /^[0-9]+(\.[0-9]+)*$/
-        const openldapOidPattern = /^OLcfg(?:Ov|Db|Gl)(?:At|Oc):[0-9]+(\.[0-9]+)*$/
-
-        const isValidOid = this._options.relaxedMode
-          ? (oidPattern.test(objectClass.oid) || openldapOidPattern.test(objectClass.oid))
-          : oidPattern.test(objectClass.oid)
-
-        if (!isValidOid) {
-          const validFormats = this._options.relaxedMode
-            ? 'dotted decimal notation (e.g., 2.5.6.6) or OpenLDAP configuration format (e.g., OLcfgOvAt:18.1)'
-            : 'dotted decimal notation (e.g., 2.5.6.6)'
-
-          throw new RFC4512ParserError(
-            `Invalid OID format: ${objectClass.oid}. Must follow ${validFormats}`,
-            RFC4512ErrorType.INVALID_OID,
-            schemaDefinition,
-            { context: `RFC 4512 - OID validation (relaxedMode: ${this._options.relaxedMode})` }
-          )
-        }
+        // RFC 4512: Validate OID format (numericoid)
+        this.validateOid(objectClass.oid, schemaDefinition, { example: '2.5.6.6' })
 
         // RFC 4512: Validate SUP field constraints
         if (objectClass.sup) {
@@ -226,14 +552,14 @@ export class RFC4512Parser {
               )
             }
 
-            // SUP should not be empty or contain invalid characters
-            const supPattern = /^[a-zA-Z][a-zA-Z0-9_-]*$/
-            if (!supPattern.test(supValue)) {
+            // SUP should be an objectClass name or numeric OID
+            const context = 'RFC 4512 - SUP must follow objectClass naming conventions or be a numeric OID'
+            if (!this.validateOidReference(supValue, schemaDefinition, { clause: 'SUP', example: '2.5.6.0', context }) && !getOidReferenceForm(supValue)) {
               throw new RFC4512ParserError(
-                `Invalid SUP format: ${supValue}. Must be a valid objectClass name`,
+                `Invalid SUP format: ${supValue}. Must be a valid objectClass name or numeric OID`,
                 RFC4512ErrorType.INVALID_FIELD,
                 schemaDefinition,
-                { context: 'RFC 4512 - SUP must follow objectClass naming conventions' }
+                { context }
               )
             }
           }
@@ -255,16 +581,16 @@ export class RFC4512Parser {
           }
         }
 
-        // RFC 4512: Validate attribute name format in MUST/MAY
-        const attributeNamePattern = /^[a-zA-Z][a-zA-Z0-9_-]*$/
+        // RFC 4512: Validate attribute name or numeric OID format in MUST/MAY
         const validateAttributeNames = (attributes: string[], listType: string) => {
           for (const attr of attributes) {
-            if (!attributeNamePattern.test(attr)) {
+            const context = `RFC 4512 Section 4.1.1 - ${listType} attributes are names or numeric OIDs`
+            if (!this.validateOidReference(attr, schemaDefinition, { clause: listType, example: '2.5.4.3', context }) && !getOidReferenceForm(attr)) {
               throw new RFC4512ParserError(
                 `Invalid attribute name in ${listType}: ${attr}. Must follow RFC 4512 naming conventions`,
                 RFC4512ErrorType.INVALID_NAME,
                 schemaDefinition,
-                { context: `${listType} attribute names must start with a letter and contain only letters, numbers, hyphens, and underscores` }
+                { context: `${listType} attribute names must start with a letter and contain only letters, numbers, hyphens, and underscores, or be numeric OIDs` }
               )
             }
           }
@@ -280,7 +606,7 @@ export class RFC4512Parser {
 
         // Generic validation for unknown/invalid fields
         const validObjectClassFields = [
-          'type', 'oid', 'name', 'desc', 'sup', 'objectClassType', 'must', 'may', 'extensions'
+          'type', 'oid', 'oidMacro', 'name', 'names', 'desc', 'obsolete', 'sup', 'objectClassType', 'must', 'may', 'referenceForms', 'referenceMacros', 'extensions'
         ]
 
         for (const key of Object.keys(objectClass)) {
@@ -300,30 +626,11 @@ export class RFC4512Parser {
         const attributeType = parsed as any
 
         // RFC 4512: Validate OID format
-        // In relaxed mode, also allow OpenLDAP configuration OIDs
-        const oidPattern = /^[0-9]+(\.[0-9]+)*$/
-        const openldapOidPattern = /^OLcfg(?:Ov|Db|Gl)(?:At|Oc):[0-9]+(\.[0-9]+)*$/
-
-        const isValidOid = this._options.relaxedMode
-          ? (oidPattern.test(attributeType.oid) || openldapOidPattern.test(attributeType.oid))
-          : oidPattern.test(attributeType.oid)
-
-        if (!isValidOid) {
-          const validFormats = this._options.relaxedMode
-            ? 'dotted decimal notation (e.g., 2.5.4.3) or OpenLDAP configuration format (e.g., OLcfgOvAt:18.1)'
-            : 'dotted decimal notation (e.g., 2.5.4.3)'
-
-          throw new RFC4512ParserError(
-            `Invalid OID format: ${attributeType.oid}. Must follow ${validFormats}`,
-            RFC4512ErrorType.INVALID_OID,
-            schemaDefinition,
-            { context: `RFC 4512 - OID validation (relaxedMode: ${this._options.relaxedMode})` }
-          )
-        }
+        this.validateOid(attributeType.oid, schemaDefinition, { example: '2.5.4.3' })
 
         // RFC 4512: Validate SUP field for attributeTypes
         if (attributeType.sup && typeof attributeType.sup === 'string') {
-          const reservedKeywords = ['EQUALITY', 'ORDERING', 'SUBSTR', 'SYNTAX', 'SINGLE-VALUE', 'COLLECTIVE', 'NO-USER-MODIFICATION', 'USAGE']
+          const reservedKeywords = ['OBSOLETE', 'EQUALITY', 'ORDERING', 'SUBSTR', 'SYNTAX', 'SINGLE-VALUE', 'COLLECTIVE', 'NO-USER-MODIFICATION', 'USAGE']
           if (reservedKeywords.includes(attributeType.sup.toUpperCase())) {
             throw new RFC4512ParserError(
               `Invalid SUP value: ${attributeType.sup}. SUP should reference a parent attributeType name, not a reserved keyword`,
@@ -332,6 +639,30 @@ export class RFC4512Parser {
               { context: 'RFC 4512 - SUP must reference a valid parent attributeType' }
             )
           }
+
+          // SUP should be an attributeType name or numeric OID
+          const context = 'RFC 4512 Section 4.1.2 - SUP must follow attributeType naming conventions or be a numeric OID'
+          if (!this.validateOidReference(attributeType.sup, schemaDefinition, { clause: 'SUP', example: '2.5.4.41', context }) && !getOidReferenceForm(attributeType.sup)) {
+            throw new RFC4512ParserError(
+              `Invalid SUP format: ${attributeType.sup}. Must be a valid attributeType name or numeric OID`,
+              RFC4512ErrorType.INVALID_FIELD,
+              schemaDefinition,
+              { context }
+            )
+          }
+        }
+
+        // RFC 4512: Validate matching rule name or numeric OID format in EQUALITY/ORDERING/SUBSTR
+        for (const [clause, rule] of [['EQUALITY', attributeType.equality], ['ORDERING', attributeType.ordering], ['SUBSTR', attributeType.substr]]) {
+          const context = `RFC 4512 Section 4.1.2 - ${clause} must follow matching rule naming conventions or be a numeric OID`
+          if (rule && !this.validateOidReference(rule, schemaDefinition, { clause, example: '2.5.13.2', context }) && !getOidReferenceForm(rule)) {
+            throw new RFC4512ParserError(
+              `Invalid ${clause} format: ${rule}. Must be a valid matching rule name or numeric OID`,
+              RFC4512ErrorType.INVALID_FIELD,
+              schemaDefinition,
+              { context }
+            )
+          }
         }
 
         // RFC 4512: If no SUP, SYNTAX is required
@@ -344,12 +675,12 @@ export class RFC4512Parser {
           )
         }
 
-        // Validate SYNTAX field format in strict mode
-        if (attributeType.syntax && !this._options.relaxedMode) {
+        // Validate SYNTAX field format, OpenLDAP syntax names being only accepted in relaxed mode
+        if (attributeType.syntax) {
           const syntaxOid = attributeType.syntax.oid
-          const standardOidPattern = /^[0-9]+(\.[0-9]+)*$/
+          const isSyntaxName = /^[a-zA-Z]/.test(syntaxOid) && !/^OLcfg(?:Ov|Db|Gl)(?:At|Oc):/.test(syntaxOid)
 
-          if (!standardOidPattern.test(syntaxOid)) {
+          if (isSyntaxName && !this._options.relaxedMode) {
             throw new RFC4512ParserError(
               `Invalid SYNTAX OID format: ${syntaxOid}. In strict mode, SYNTAX must use standard numeric OID format (e.g., '1.3.6.1.4.1.1466.115.121.1.15'). Use relaxedMode: true to support OpenLDAP syntax names.`,
               RFC4512ErrorType.INVALID_FIELD,
@@ -357,12 +688,20 @@ export class RFC4512Parser {
               { context: `RFC 4512 - SYNTAX validation (relaxedMode: ${this._options.relaxedMode})` }
             )
           }
+
+          if (!isSyntaxName) {
+            this.validateOid(syntaxOid, schemaDefinition, {
+              label: 'SYNTAX OID',
+              example: '1.3.6.1.4.1.1466.115.121.1.15',
+              context: 'RFC 4512 Section 4.1.2 - SYNTAX validation',
+            })
+          }
         }
 
         // Generic validation for unknown/invalid fields
         const validAttributeTypeFields = [
-          'type', 'oid', 'name', 'desc', 'sup', 'equality', 'ordering', 'substr',
-          'syntax', 'singleValue', 'collective', 'noUserModification', 'usage', 'extensions'
+          'type', 'oid', 'oidMacro', 'name', 'names', 'desc', 'obsolete', 'sup', 'equality', 'ordering', 'substr',
+          'syntax', 'singleValue', 'collective', 'noUserModification', 'usage', 'referenceForms', 'referenceMacros', 'extensions'
         ]
 
         for (const key of Object.keys(attributeType)) {
@@ -377,6 +716,314 @@ export class RFC4512Parser {
         }
       }
 
+      // Additional validation for ldapSyntaxes
+      if (parsed.type === 'ldapSyntax') {
+        // RFC 4512: Validate OID format
+        this.validateOid(parsed.oid, schemaDefinition, { example: '1.3.6.1.4.1.1466.115.121.1.15' })
+      }
+
+      // Additional validation for matchingRules
+      if (parsed.type === 'matchingRule') {
+        const matchingRule = parsed as LDAPMatchingRuleInterface
+
+        // RFC 4512: Validate OID format
+        this.validateOid(matchingRule.oid, schemaDefinition, { example: '2.5.13.2' })
+
+        // RFC 4512: SYNTAX is required for matching rules
+        if (!matchingRule.syntax) {
+          throw new RFC4512ParserError(
+            'MatchingRule must define the SYNTAX of its assertion values',
+            RFC4512ErrorType.MISSING_FIELD,
+            schemaDefinition,
+            { context: 'RFC 4512 Section 4.1.3 - SYNTAX is required for matching rule definitions' }
+          )
+        }
+
+        this.validateOid(matchingRule.syntax, schemaDefinition, {
+          label: 'SYNTAX OID',
+          example: '1.3.6.1.4.1.1466.115.121.1.15',
+          context: 'RFC 4512 Section 4.1.3 - SYNTAX validation',
+          allowOpenLDAPOid: false,
+        })
+
+        // Generic validation for unknown/invalid fields
+        const validMatchingRuleFields = [
+          'type', 'oid', 'oidMacro', 'name', 'names', 'desc', 'obsolete', 'syntax', 'syntaxMacro', 'extensions'
+        ]
+
+        for (const key of Object.keys(matchingRule)) {
+          if (!validMatchingRuleFields.includes(key)) {
+            throw new RFC4512ParserError(
+              `Invalid field in matchingRule definition: ${key}. Check RFC 4512 specification for valid fields`,
+              RFC4512ErrorType.INVALID_FIELD,
+              schemaDefinition,
+              { context: `Valid matchingRule fields are: ${validMatchingRuleFields.join(', ')}` }
+            )
+          }
+        }
+      }
+
+      // Additional validation for matchingRuleUses
+      if (parsed.type === 'matchingRuleUse') {
+        const matchingRuleUse = parsed as LDAPMatchingRuleUseInterface
+
+        // RFC 4512: Validate OID format (OID of the matching rule being described)
+        this.validateOid(matchingRuleUse.oid, schemaDefinition, { example: '2.5.13.2' })
+
+        // RFC 4512: APPLIES is required for matching rule uses
+        if (!matchingRuleUse.applies) {
+          throw new RFC4512ParserError(
+            'MatchingRuleUse must define the attribute types it APPLIES to',
+            RFC4512ErrorType.MISSING_FIELD,
+            schemaDefinition,
+            { context: 'RFC 4512 Section 4.1.4 - APPLIES is required for matching rule use definitions' }
+          )
+        }
+
+        // RFC 4512: Validate attribute name or numeric OID format in APPLIES
+        for (const attr of matchingRuleUse.applies) {
+          const context = 'RFC 4512 Section 4.1.4 - APPLIES attributes are names or numeric OIDs'
+          if (!this.validateOidReference(attr, schemaDefinition, { clause: 'APPLIES', example: '2.5.4.3', context }) && !getOidReferenceForm(attr)) {
+            throw new RFC4512ParserError(
+              `Invalid attribute name in APPLIES: ${attr}. Must follow RFC 4512 naming conventions`,
+              RFC4512ErrorType.INVALID_NAME,
+              schemaDefinition,
+              { context: 'APPLIES attribute names must start with a letter and contain only letters, numbers, hyphens, and underscores, or be numeric OIDs' }
+            )
+          }
+        }
+
+        // Generic validation for unknown/invalid fields
+        const validMatchingRuleUseFields = [
+          'type', 'oid', 'oidMacro', 'name', 'names', 'desc', 'obsolete', 'applies', 'referenceForms', 'referenceMacros', 'extensions'
+        ]
+
+        for (const key of Object.keys(matchingRuleUse)) {
+          if (!validMatchingRuleUseFields.includes(key)) {
+            throw new RFC4512ParserError(
+              `Invalid field in matchingRuleUse definition: ${key}. Check RFC 4512 specification for valid fields`,
+              RFC4512ErrorType.INVALID_FIELD,
+              schemaDefinition,
+              { context: `Valid matchingRuleUse fields are: ${validMatchingRuleUseFields.join(', ')}` }
+            )
+          }
+        }
+      }
+
+      // Additional validation for DIT content rules
+      if (parsed.type === 'ditContentRule') {
+        const ditContentRule = parsed as LDAPDITContentRuleInterface
+
+        // RFC 4512: The rule OID is the OID of its structural objectClass, validate it the same way
+        this.validateOid(ditContentRule.oid, schemaDefinition, {
+          example: '2.5.6.6',
+          requirement: 'Must be the OID of a structural objectClass and follow',
+          context: 'RFC 4512 Section 4.1.6 - DIT content rule OID is its structural objectClass OID',
+        })
+
+        // RFC 4512: Validate object class and attribute name or numeric OID format in AUX/MUST/MAY/NOT
+        const validateDescriptors = (descriptors: string[], listType: string) => {
+          for (const descriptor of descriptors) {
+            const context = `RFC 4512 Section 4.1.6 - ${listType} references are names or numeric OIDs`
+            const example = listType === 'AUX' ? '1.3.6.1.1.1.2.0' : '2.5.4.3'
+            if (!this.validateOidReference(descriptor, schemaDefinition, { clause: listType, example, context }) && !getOidReferenceForm(descriptor)) {
+              throw new RFC4512ParserError(
+                `Invalid ${listType === 'AUX' ? 'objectClass' : 'attribute'} name in ${listType}: ${descriptor}. Must follow RFC 4512 naming conventions`,
+                RFC4512ErrorType.INVALID_NAME,
+                schemaDefinition,
+                { context: `${listType} names must start with a letter and contain only letters, numbers, hyphens, and underscores, or be numeric OIDs` }
+              )
+            }
+          }
+        }
+
+        if (ditContentRule.aux) validateDescriptors(ditContentRule.aux, 'AUX')
+        if (ditContentRule.must) validateDescriptors(ditContentRule.must, 'MUST')
+        if (ditContentRule.may) validateDescriptors(ditContentRule.may, 'MAY')
+        if (ditContentRule.not) validateDescriptors(ditContentRule.not, 'NOT')
+
+        // RFC 4512: Validate MUST and MAY attributes don't overlap
+        if (ditContentRule.must && ditContentRule.may && !this._options.allowMustMayOverlap) {
+          const maySet = new Set(ditContentRule.may)
+          const overlap = ditContentRule.must.filter(attr => maySet.has(attr))
+
+          if (overlap.length > 0) {
+            throw new RFC4512ParserError(
+              `Attributes cannot appear in both MUST and MAY: ${overlap.join(', ')}`,
+              RFC4512ErrorType.VALIDATION_ERROR,
+              schemaDefinition,
+              { context: 'RFC 4512 Section 4.1.6 - MUST and MAY attributes must be mutually exclusive' }
+            )
+          }
+        }
+
+        // RFC 4512: A precluded attribute cannot also be required or allowed by the rule
+        if (ditContentRule.not) {
+          const notSet = new Set(ditContentRule.not)
+          const conflicts = [...(ditContentRule.must ?? []), ...(ditContentRule.may ?? [])].filter(attr => notSet.has(attr))
+
+          if (conflicts.length > 0) {
+            throw new RFC4512ParserError(
+              `Attributes cannot appear in NOT and in MUST or MAY: ${conflicts.join(', ')}`,
+              RFC4512ErrorType.VALIDATION_ERROR,
+              schemaDefinition,
+              { context: 'RFC 4512 Section 4.1.6 - NOT lists attributes precluded by the rule' }
+            )
+          }
+        }
+
+        // Generic validation for unknown/invalid fields
+        const validDITContentRuleFields = [
+          'type', 'oid', 'oidMacro', 'name', 'names', 'desc', 'obsolete', 'aux', 'must', 'may', 'not', 'referenceForms', 'referenceMacros', 'extensions'
+        ]
+
+        for (const key of Object.keys(ditContentRule)) {
+          if (!validDITContentRuleFields.includes(key)) {
+            throw new RFC4512ParserError(
+              `Invalid field in ditContentRule definition: ${key}. Check RFC 4512 specification for valid fields`,
+              RFC4512ErrorType.INVALID_FIELD,
+              schemaDefinition,
+              { context: `Valid ditContentRule fields are: ${validDITContentRuleFields.join(', ')}` }
+            )
+          }
+        }
+      }
+
+      // Additional validation for DIT structure rules
+      if (parsed.type === 'ditStructureRule') {
+        const ditStructureRule = parsed as LDAPDITStructureRuleInterface
+
+        // RFC 4512: FORM is required for DIT structure rules
+        if (!ditStructureRule.form) {
+          throw new RFC4512ParserError(
+            `DIT structure rule ${ditStructureRule.ruleId} must define the name FORM it uses`,
+            RFC4512ErrorType.MISSING_FIELD,
+            schemaDefinition,
+            { context: 'RFC 4512 Section 4.1.7.1 - FORM is required for DIT structure rule definitions' }
+          )
+        }
+
+        // RFC 4512: Validate name form reference format
+        const formContext = 'RFC 4512 Section 4.1.7.1 - FORM is a name form name or numeric OID'
+        const formOid = this.validateOidReference(ditStructureRule.form, schemaDefinition, { clause: 'FORM', example: '1.3.6.1.1.10.15.1', context: formContext })
+        if (!formOid && !getOidReferenceForm(ditStructureRule.form)) {
+          throw new RFC4512ParserError(
+            `Invalid FORM value: ${ditStructureRule.form}. Must reference a valid name form name or numeric OID`,
+            RFC4512ErrorType.INVALID_NAME,
+            schemaDefinition,
+            { context: 'RFC 4512 Section 4.1.7.1 - FORM must follow name form naming conventions' }
+          )
+        }
+
+        // RFC 4512: SUP lists superior rule IDs, which must be integers (self-reference is allowed for recursive rules)
+        if (ditStructureRule.sup) {
+          for (const supRuleId of ditStructureRule.sup) {
+            if (!Number.isSafeInteger(supRuleId)) {
+              throw new RFC4512ParserError(
+                `Invalid SUP rule ID: ${supRuleId}. SUP must reference superior rule IDs`,
+                RFC4512ErrorType.INVALID_FIELD,
+                schemaDefinition,
+                { context: 'RFC 4512 Section 4.1.7.1 - SUP must reference superior DIT structure rule IDs' }
+              )
+            }
+          }
+        }
+
+        // Generic validation for unknown/invalid fields
+        const validDITStructureRuleFields = [
+          'type', 'ruleId', 'name', 'names', 'desc', 'obsolete', 'form', 'sup', 'referenceForms', 'referenceMacros', 'extensions'
+        ]
+
+        for (const key of Object.keys(ditStructureRule)) {
+          if (!validDITStructureRuleFields.includes(key)) {
+            throw new RFC4512ParserError(
+              `Invalid field in ditStructureRule definition: ${key}. Check RFC 4512 specification for valid fields`,
+              RFC4512ErrorType.INVALID_FIELD,
+              schemaDefinition,
+              { context: `Valid ditStructureRule fields are: ${validDITStructureRuleFields.join(', ')}` }
+            )
+          }
+        }
+      }
+
+      // Additional validation for name forms
+      if (parsed.type === 'nameForm') {
+        const nameForm = parsed as LDAPNameFormInterface
+
+        // RFC 4512: Validate OID format
+        this.validateOid(nameForm.oid, schemaDefinition, { example: '1.3.6.1.1.10.15.1' })
+
+        // RFC 4512: OC and MUST are required for name forms
+        if (!nameForm.oc) {
+          throw new RFC4512ParserError(
+            'NameForm must define the structural objectClass (OC) it applies to',
+            RFC4512ErrorType.MISSING_FIELD,
+            schemaDefinition,
+            { context: 'RFC 4512 Section 4.1.7.2 - OC is required for name form definitions' }
+          )
+        }
+
+        if (!nameForm.must) {
+          throw new RFC4512ParserError(
+            'NameForm must define its mandatory RDN attributes (MUST)',
+            RFC4512ErrorType.MISSING_FIELD,
+            schemaDefinition,
+            { context: 'RFC 4512 Section 4.1.7.2 - MUST is required for name form definitions' }
+          )
+        }
+
+        // RFC 4512: Validate object class and attribute name or numeric OID format in OC/MUST/MAY
+        const validateDescriptors = (descriptors: string[], listType: string) => {
+          for (const descriptor of descriptors) {
+            const context = `RFC 4512 Section 4.1.7.2 - ${listType} references are names or numeric OIDs`
+            const example = listType === 'OC' ? '2.5.6.5' : '2.5.4.11'
+            if (!this.validateOidReference(descriptor, schemaDefinition, { clause: listType, example, context }) && !getOidReferenceForm(descriptor)) {
+              throw new RFC4512ParserError(
+                `Invalid ${listType === 'OC' ? 'objectClass' : 'attribute'} name in ${listType}: ${descriptor}. Must follow RFC 4512 naming conventions`,
+                RFC4512ErrorType.INVALID_NAME,
+                schemaDefinition,
+                { context: `${listType} names must start with a letter and contain only letters, numbers, hyphens, and underscores, or be numeric OIDs` }
+              )
+            }
+          }
+        }
+
+        validateDescriptors([nameForm.oc], 'OC')
+        validateDescriptors(nameForm.must, 'MUST')
+        if (nameForm.may) validateDescriptors(nameForm.may, 'MAY')
+
+        // RFC 4512: Validate MUST and MAY attributes don't overlap
+        if (nameForm.may && !this._options.allowMustMayOverlap) {
+          const maySet = new Set(nameForm.may)
+          const overlap = nameForm.must.filter(attr => maySet.has(attr))
+
+          if (overlap.length > 0) {
+            throw new RFC4512ParserError(
+              `Attributes cannot appear in both MUST and MAY: ${overlap.join(', ')}`,
+              RFC4512ErrorType.VALIDATION_ERROR,
+              schemaDefinition,
+              { context: 'RFC 4512 Section 4.1.7.2 - MUST and MAY attributes must be mutually exclusive' }
+            )
+          }
+        }
+
+        // Generic validation for unknown/invalid fields
+        const validNameFormFields = [
+          'type', 'oid', 'oidMacro', 'name', 'names', 'desc', 'obsolete', 'oc', 'must', 'may', 'referenceForms', 'referenceMacros', 'extensions'
+        ]
+
+        for (const key of Object.keys(nameForm)) {
+          if (!validNameFormFields.includes(key)) {
+            throw new RFC4512ParserError(
+              `Invalid field in nameForm definition: ${key}. Check RFC 4512 specification for valid fields`,
+              RFC4512ErrorType.INVALID_FIELD,
+              schemaDefinition,
+              { context: `Valid nameForm fields are: ${validNameFormFields.join(', ')}` }
+            )
+          }
+        }
+      }
+
       return parsed
 
     } catch (error) {
@@ -394,11 +1041,12 @@ export class RFC4512Parser {
       } : undefined
 
       // Create a new RFC4512ParserError for grammar/syntax errors
+      // Errors raised from grammar actions carry their own error type and context
       throw RFC4512ParserError.fromError(
         error instanceof Error ? error : new Error(String(error)),
-        pegError.location ? RFC4512ErrorType.SYNTAX_ERROR : RFC4512ErrorType.UNKNOWN_ERROR,
+        pegError.errorType ?? (pegError.location ? RFC4512ErrorType.SYNTAX_ERROR : RFC4512ErrorType.UNKNOWN_ERROR),
         schemaDefinition,
-        { position }
+        { position, context: pegError.context }
       )
     }
   }
@@ -407,11 +1055,116 @@ export class RFC4512Parser {
    * Parse multiple schema definitions
    *
    * @param schemaDefinitions - Array of definitions to parse
+   * @param type - Expected definition type shared by all definitions; detected per definition when omitted
    * @returns Array of parsed schema data
    * @throws {RFC4512ParserError} When any parsing fails with detailed error information
    */
-  public parseMultipleSchemas(schemaDefinitions: string[]): LDAPSchemaType[] {
-    return schemaDefinitions.map(schema => this.parseSchema(schema))
+  public parseMultipleSchemas(schemaDefinitions: string[], type?: LDAPSchemaType['type']): LDAPSchemaType[] {
+    return schemaDefinitions.map(schema => this.parseSchema(schema, type))
+  }
+
+  /**
+   * Parse a text holding several schema definitions
+   *
+   * The text is split with splitSchemaDefinitions, e.g. a paste of definitions separated by whitespace
+   * or newlines, and every definition is parsed. A definition that fails to parse is reported in the
+   * errors and does not stop parsing; error positions are relative to the whole text.
+   *
+   * @param text - The text holding the definitions
+   * @param type - Expected definition type shared by all definitions; detected per definition when omitted
+   * @returns The parsed definitions and the errors, each with its offset range in the text
+   */
+  public parseSchemaText(text: string, type?: LDAPSchemaType['type']): SchemaTextInterface {
+    const result: SchemaTextInterface = { definitions: [], errors: [] }
+
+    for (const range of splitSchemaDefinitions(text)) {
+      const { schema, error } = this.parseTextRange(range.value, type, offset => getTextPosition(text, range.start + offset))
+      if (schema) {
+        result.definitions.push({ ...range, schema })
+      } else if (error) {
+        result.errors.push({ ...range, error })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Parse a stream holding several schema definitions, yielding every definition as soon as it is completed
+   *
+   * The incremental counterpart of parseSchemaText: the text is split with splitSchemaDefinitions as it is
+   * read, and only the definition being read is kept in memory. Offsets and error positions are relative
+   * to the whole stream.
+   *
+   * @param source - A Node Readable, or any iterable or async iterable of text or UTF-8 chunks
+   * @param type - Expected definition type shared by all definitions; detected per definition when omitted
+   * @returns The parsed definitions and the errors, in source order, each with its offset range and line
+   */
+  public async *parseSchemaStream(source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>, type?: LDAPSchemaType['type']): AsyncGenerator<SchemaTextValueInterface> {
+    // A multi-byte character may be split between two chunks
+    const decoder = new TextDecoder('utf-8')
+    // Text not parsed yet, and the position of its first character in the stream
+    let pending = ''
+    let origin = { line: 1, column: 1, offset: 0 }
+    const locate = (offset: number) => {
+      const position = getTextPosition(pending, offset)
+      return {
+        line: origin.line + position.line - 1,
+        column: position.line === 1 ? origin.column + position.column - 1 : position.column,
+        offset: origin.offset + offset,
+      }
+    }
+    const parse = (ranges: SchemaDefinitionRangeInterface[]) => ranges.map(range => ({
+      start: origin.offset + range.start,
+      end: origin.offset + range.end,
+      value: range.value,
+      line: locate(range.start).line,
+      ...this.parseTextRange(range.value, type, offset => locate(range.start + offset)),
+    }))
+
+    for await (const chunk of source) {
+      pending += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+
+      // The last range may go on in the next chunks
+      const ranges = splitSchemaDefinitions(pending)
+      const last = ranges.pop()
+      yield* parse(ranges)
+
+      const rest = last?.start ?? pending.length
+      origin = locate(rest)
+      pending = pending.slice(rest)
+    }
+
+    pending += decoder.decode()
+    yield* parse(splitSchemaDefinitions(pending))
+  }
+
+  /**
+   * Parse one range of a text holding several definitions
+   *
+   * @param value - The text of the range
+   * @param type - Expected definition type; detected when omitted
+   * @param locate - Position in the whole text of an offset in the range
+   * @returns The parsed definition, or the error relocated in the whole text
+   */
+  private parseTextRange(value: string, type: LDAPSchemaType['type'] | undefined, locate: (offset: number) => { line: number; column: number; offset: number }): { schema?: LDAPSchemaType; error?: RFC4512ParserError } {
+    try {
+      return { schema: this.parseSchema(value, type) }
+    } catch (error) {
+      if (!(error instanceof RFC4512ParserError)) {
+        throw error
+      }
+
+      // Positions are relative to the definition without its OpenLDAP prefix, as parsed
+      const prefixLength = /^\{\d+\}\s*/.exec(value)?.[0].length ?? 0
+      return {
+        error: new RFC4512ParserError(error.message, error.errorType, error.schemaDefinition, {
+          position: locate(error.position ? prefixLength + error.position.offset : 0),
+          context: error.context,
+          cause: error.cause,
+        }),
+      }
+    }
   }
 
   /**
@@ -433,12 +1186,12 @@ export class RFC4512Parser {
    * Extract only the OID from a schema definition
    *
    * @param schemaDefinition - The schema definition
-   * @returns The OID or null if not found
+   * @returns The OID or null if not found (DIT structure rules have a rule ID instead of an OID)
    */
   public extractOID(schemaDefinition: string): string | null {
     try {
       const result = this.parseSchema(schemaDefinition);
-      return result.oid;
+      return hasSchemaOid(result) ? result.oid : null;
     } catch {
       return null;
     }
@@ -453,7 +1206,7 @@ export class RFC4512Parser {
   public extractName(schemaDefinition: string): string | null {
     try {
       const result = this.parseSchema(schemaDefinition);
-      return result.type === 'ldapSyntax' ? null : result.name;
+      return result.type === 'ldapSyntax' ? null : result.name ?? null;
     } catch {
       return null;
     }
@@ -465,6 +1218,13 @@ export class RFC4512Parser {
   public get options(): RFC4512ParserOptions {
     return { ...this._options }
   }
+
+  /**
+   * Get the objectIdentifier macros known to the parser, expanded to numeric OIDs
+   */
+  public get objectIdentifiers(): Record<string, string> {
+    return Object.fromEntries([...this._objectIdentifiers.values()].map(({ name, oid }) => [name, oid]))
+  }
 }
 
 export default RFC4512Parser
@@ -1,6 +1,9 @@
 export * from './ldap-attribute-usage.type'
 export * from './ldap-equality-matching-rule.type'
+export * from './ldap-extensions.type'
 export * from './ldap-object-class.type'
+export * from './ldap-oid-schema.type'
+export * from './ldap-oid-reference-form.type'
 export * from './ldap-ordering-matching-rule.type'
 export * from './ldap-schema.type'
 export * from './ldap-substring-matching-rule.type'
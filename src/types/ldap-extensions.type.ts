@@ -0,0 +1,12 @@
+/**
+ * LDAP Schema Extensions Type
+ *
+ * Vendor-specific X-* extensions of a schema definition, keyed by extension name.
+ * An extension holds a single string when written as one quoted string or bare word,
+ * and a list when written as quoted strings in parentheses.
+ *
+ * @example { 'X-ORIGIN': 'RFC 4519' }
+ * @example { 'X-ORIGIN': ['RFC 4519', 'user defined'], 'X-ORDERED': 'VALUES' }
+ * @see {@link https://tools.ietf.org/html/rfc4512#section-4.2} RFC 4512 Section 4.2
+ */
+export type LDAPExtensionsType = Record<string, string | string[]>
@@ -0,0 +1,29 @@
+/**
+ * LDAP OID Reference Form Type (RFC 4512)
+ *
+ * Defines how a reference to another schema element was written. The RFC 4512 `oid`
+ * production accepts either form in SUP, MUST, MAY, EQUALITY and similar clauses.
+ *
+ * @see {@link https://tools.ietf.org/html/rfc4512#section-1.4} RFC 4512 Section 1.4
+ */
+export type LDAPOidReferenceFormType =
+  /**
+   * Descriptor (short name)
+   *
+   * @example 'cn', 'caseIgnoreMatch'
+   */
+  | 'descr'
+
+  /**
+   * Numeric OID
+   *
+   * @example '2.5.4.3', '2.5.13.2'
+   */
+  | 'numericoid'
+
+  /**
+   * OpenLDAP objectIdentifier macro followed by a numeric suffix, expanded by the parser
+   *
+   * @example 'MyAttrs:1', 'OLcfgOvAt:18.1'
+   */
+  | 'oidmacro'
@@ -0,0 +1,12 @@
+import type { LDAPDITStructureRuleInterface } from '../interfaces/ldap-dit-structure-rule.interface'
+import type { LDAPSchemaType } from './ldap-schema.type'
+
+/**
+ * LDAP Schema Type identified by an OID
+ *
+ * Every schema definition but DIT structure rules, which are identified by an integer rule ID.
+ * Narrow a parsed definition to this type with hasSchemaOid to read its OID as a string.
+ *
+ * @see {@link LDAPSchemaType} For all schema definitions
+ */
+export type LDAPOidSchemaType = Exclude<LDAPSchemaType, LDAPDITStructureRuleInterface>
@@ -1,6 +1,11 @@
 import type { LDAPObjectClassInterface } from '../interfaces/ldap-object-class.interface'
 import type { LDAPAttributeTypeInterface } from '../interfaces/ldap-attribute-type.interface'
 import type { LDAPSyntaxInterface } from '../interfaces/ldap-syntax.interface'
+import type { LDAPMatchingRuleInterface } from '../interfaces/ldap-matching-rule.interface'
+import type { LDAPMatchingRuleUseInterface } from '../interfaces/ldap-matching-rule-use.interface'
+import type { LDAPDITContentRuleInterface } from '../interfaces/ldap-dit-content-rule.interface'
+import type { LDAPDITStructureRuleInterface } from '../interfaces/ldap-dit-structure-rule.interface'
+import type { LDAPNameFormInterface } from '../interfaces/ldap-name-form.interface'
 
 /**
  * LDAP Schema Type Union (RFC 4512)
@@ -15,6 +20,11 @@ import type { LDAPSyntaxInterface } from '../interfaces/ldap-syntax.interface'
  * @see {@link https://tools.ietf.org/html/rfc4512} RFC 4512 - LDAP Directory Information Models
  * @see {@link LDAPObjectClassInterface} For object class definitions
  * @see {@link LDAPAttributeTypeInterface} For attribute type definitions
+ * @see {@link LDAPMatchingRuleInterface} For matching rule definitions
+ * @see {@link LDAPMatchingRuleUseInterface} For matching rule use definitions
+ * @see {@link LDAPDITContentRuleInterface} For DIT content rule definitions
+ * @see {@link LDAPDITStructureRuleInterface} For DIT structure rule definitions (identified by ruleId, not oid)
+ * @see {@link LDAPNameFormInterface} For name form definitions
  *
  * @example
  * ```typescript
@@ -31,4 +41,12 @@ import type { LDAPSyntaxInterface } from '../interfaces/ldap-syntax.interface'
  * }
  * ```
  */
-export type LDAPSchemaType = LDAPObjectClassInterface | LDAPAttributeTypeInterface | LDAPSyntaxInterface
+export type LDAPSchemaType =
+  | LDAPObjectClassInterface
+  | LDAPAttributeTypeInterface
+  | LDAPSyntaxInterface
+  | LDAPMatchingRuleInterface
+  | LDAPMatchingRuleUseInterface
+  | LDAPDITContentRuleInterface
+  | LDAPDITStructureRuleInterface
+  | LDAPNameFormInterface
@@ -0,0 +1,3 @@
+export * from './ldif.writer'
+export * from './olc-schema-config.writer'
+export * from './schema-file.writer'
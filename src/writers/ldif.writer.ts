@@ -0,0 +1,63 @@
+import type { LDIFAttributeInterface, LDIFEntryInterface } from '../interfaces'
+
+/**
+ * Entry to write: its dn and attribute values, line numbers being ignored
+ */
+type LDIFWritableEntry = Pick<LDIFEntryInterface, 'dn'> & { attributes: Pick<LDIFAttributeInterface, 'name' | 'value'>[] }
+
+/**
+ * Values that can be written as is (RFC 2849 SAFE-STRING): ASCII without NUL, CR or LF,
+ * not starting with a space, a colon or a less-than sign, and not ending with a space
+ */
+const SAFE_STRING_PATTERN = /^(?:[\x01-\x09\x0B\x0C\x0E-\x1F\x21-\x39\x3B\x3D-\x7F][\x01-\x09\x0B\x0C\x0E-\x7F]*)?(?<! )$/
+
+/**
+ * LDIF Writer (RFC 2849)
+ *
+ * Writes entries as LDIF text, the reverse of LDIFReader: values that are not safe strings
+ * (non-ASCII text, leading spaces, ...) are base64 (`::`) encoded and lines longer than the
+ * line width are folded on continuation lines starting with a space.
+ *
+ * @example
+ * ```typescript
+ * const ldif = LDIFWriter.write([{ dn: 'cn=test', attributes: [{ name: 'cn', value: 'test' }] }])
+ * // "dn: cn=test\ncn: test\n"
+ * ```
+ */
+export class LDIFWriter {
+  /**
+   * Write entries, separated by blank lines
+   *
+   * @param entries - The entries, e.g. as read by LDIFReader
+   * @param lineWidth - Maximum length of the lines (76 by default, as recommended by RFC 2849)
+   * @returns The LDIF text, ending with a newline
+   */
+  public static write(entries: LDIFWritableEntry[], lineWidth = 76): string {
+    return entries
+      .map(entry => {
+        const lines = [{ name: 'dn', value: entry.dn }, ...entry.attributes].map(({ name, value }) => LDIFWriter.writeValue(name, value, lineWidth))
+        return `${lines.join('\n')}\n`
+      })
+      .join('\n')
+  }
+
+  /**
+   * Write one attribute value, folded on continuation lines when longer than the line width
+   *
+   * @param name - The attribute description
+   * @param value - The value, base64 encoded when it is not a safe string
+   * @param lineWidth - Maximum length of the lines
+   * @returns The value line and its continuation lines, without final newline
+   */
+  public static writeValue(name: string, value: string, lineWidth = 76): string {
+    const line = SAFE_STRING_PATTERN.test(value) ? `${name}: ${value}` : `${name}:: ${Buffer.from(value, 'utf-8').toString('base64')}`
+    const lines = [line.slice(0, lineWidth)]
+
+    // Continuation lines start with a space, which is not part of the value
+    for (let index = lineWidth; index < line.length; index += lineWidth - 1) {
+      lines.push(` ${line.slice(index, index + lineWidth - 1)}`)
+    }
+
+    return lines.join('\n')
+  }
+}
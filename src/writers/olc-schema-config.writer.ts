@@ -0,0 +1,116 @@
+import { RFC4512ErrorType, RFC4512ParserError } from '../errors'
+import { serializeSchema } from '../functions'
+import type { LDIFSchemaDefinitionInterface, OlcSchemaConfigInterface, OlcSchemaConfigWriterOptions } from '../interfaces'
+import type { LDAPSchemaType } from '../types'
+import { LDIFWriter } from './ldif.writer'
+
+/**
+ * olcSchemaConfig attributes holding each definition type, in the order they are written
+ */
+const SCHEMA_ATTRIBUTES: Partial<Record<LDAPSchemaType['type'], string>> = {
+  ldapSyntax: 'olcLdapSyntaxes',
+  attributeType: 'olcAttributeTypes',
+  objectClass: 'olcObjectClasses',
+  ditContentRule: 'olcDitContentRules',
+}
+
+/**
+ * OpenLDAP index prefix of a value, as removed by the parser
+ */
+const INDEX_PREFIX_PATTERN = /^\s*\{(\d+)\}/
+
+/**
+ * OpenLDAP cn=config Schema Writer
+ *
+ * Writes schemas as OpenLDAP olcSchemaConfig entries, to be loaded with `ldapadd` or `slapadd`:
+ * the `cn={n}name,cn=schema,cn=config` dn, the olcSchemaConfig object class, then the
+ * olcObjectIdentifier, olcLdapSyntaxes, olcAttributeTypes, olcObjectClasses and olcDitContentRules
+ * values. Definitions are written with serializeSchema and every value gets the `{n}` index prefix
+ * that the parser removes when reading.
+ *
+ * @example
+ * ```typescript
+ * const parser = new RFC4512Parser()
+ * const ldif = new OlcSchemaConfigWriter().write({
+ *   name: 'custom',
+ *   index: 4,
+ *   definitions: [parser.parseSchema("( 1.3.6.1.4.1.99999.1.1 NAME 'myBadgeNumber' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )")],
+ * })
+ * // dn: cn={4}custom,cn=schema,cn=config
+ * // objectClass: olcSchemaConfig
+ * // cn: {4}custom
+ * // olcAttributeTypes: {0}( 1.3.6.1.4.1.99999.1.1 NAME 'myBadgeNumber' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )
+ * ```
+ */
+export class OlcSchemaConfigWriter {
+  private readonly _options: Required<OlcSchemaConfigWriterOptions>
+
+  /**
+   * Constructor - sets the writing options
+   *
+   * @param options - Writer configuration options
+   */
+  public constructor(options?: OlcSchemaConfigWriterOptions) {
+    this._options = { renumber: true, lineWidth: 76, ...options }
+  }
+
+  /**
+   * Write schemas as olcSchemaConfig entries
+   *
+   * @param schemas - One schema, or several written as consecutive entries
+   * @returns The LDIF text, ending with a newline
+   * @throws {RFC4512ParserError} VALIDATION_ERROR when a definition type has no olcSchemaConfig attribute
+   */
+  public write(schemas: OlcSchemaConfigInterface | OlcSchemaConfigInterface[]): string {
+    const entries = (Array.isArray(schemas) ? schemas : [schemas]).map(schema => {
+      const cn = schema.index === undefined ? schema.name : `{${schema.index}}${schema.name}`
+      const attributes = [
+        { name: 'objectClass', value: 'olcSchemaConfig' },
+        { name: 'cn', value: cn },
+        ...Object.entries(schema.objectIdentifiers ?? {}).map(([name, oid], index) => ({ name: 'olcObjectIdentifier', value: `{${index}}${name} ${oid}` })),
+        ...this.writeDefinitions(schema.definitions),
+      ]
+
+      return { dn: `cn=${cn},cn=schema,cn=config`, attributes }
+    })
+
+    return LDIFWriter.write(entries, this._options.lineWidth)
+  }
+
+  /**
+   * Write the definitions of a schema as indexed values, grouped by attribute
+   *
+   * @private
+   * @param definitions - The definitions, parsed or read with their LDIF value
+   * @returns The attribute values, in attribute order then definition order
+   * @throws {RFC4512ParserError} VALIDATION_ERROR when a definition type has no olcSchemaConfig attribute
+   */
+  private writeDefinitions(definitions: (LDAPSchemaType | LDIFSchemaDefinitionInterface)[]): { name: string; value: string }[] {
+    const values = new Map<string, { index?: number; text: string }[]>(Object.values(SCHEMA_ATTRIBUTES).map(attribute => [attribute, []]))
+
+    for (const definition of definitions) {
+      const schema = 'schema' in definition ? definition.schema : definition
+      const attribute = SCHEMA_ATTRIBUTES[schema.type]
+      if (!attribute) {
+        throw new RFC4512ParserError(
+          `Cannot write ${schema.type} definitions in an olcSchemaConfig entry. Expected attributeType, objectClass, ldapSyntax or ditContentRule`,
+          RFC4512ErrorType.VALIDATION_ERROR,
+          serializeSchema(schema),
+          { context: 'olcSchemaConfig entries only have olcAttributeTypes, olcObjectClasses, olcLdapSyntaxes and olcDitContentRules' }
+        )
+      }
+
+      const prefix = 'schema' in definition ? INDEX_PREFIX_PATTERN.exec(definition.value) : null
+      values.get(attribute)!.push({ index: prefix ? Number(prefix[1]) : undefined, text: serializeSchema(schema) })
+    }
+
+    return [...values].flatMap(([name, attributeValues]) => {
+      let next = this._options.renumber ? 0 : Math.max(-1, ...attributeValues.map(value => value.index ?? -1)) + 1
+
+      return attributeValues.map(({ index, text }) => {
+        const written = this._options.renumber || index === undefined ? next++ : index
+        return { name, value: `{${written}}${text}` }
+      })
+    })
+  }
+}
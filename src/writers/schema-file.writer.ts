@@ -0,0 +1,208 @@
+import { RFC4512ErrorType, RFC4512ParserError } from '../errors'
+import { serializeSchema } from '../functions'
+import type { SchemaFileWriterOptions } from '../interfaces'
+import type { LDAPSchemaType } from '../types'
+
+/**
+ * slapd.conf directives of each definition type, with the header of their section, in the order they are written
+ */
+const SCHEMA_DIRECTIVES: Partial<Record<LDAPSchemaType['type'], { directive: string; header: string }>> = {
+  ldapSyntax: { directive: 'ldapsyntax', header: 'LDAP syntaxes' },
+  attributeType: { directive: 'attributetype', header: 'Attribute types' },
+  objectClass: { directive: 'objectclass', header: 'Object classes' },
+  ditContentRule: { directive: 'ditcontentrule', header: 'DIT content rules' },
+}
+
+/**
+ * Clauses referencing other schema elements, for the definition types written in schema files
+ */
+const REFERENCE_CLAUSES: Partial<Record<LDAPSchemaType['type'], string[]>> = {
+  attributeType: ['sup', 'equality', 'ordering', 'substr'],
+  objectClass: ['sup', 'must', 'may'],
+  ditContentRule: ['aux', 'must', 'may', 'not'],
+}
+
+/**
+ * objectIdentifier macro, with its value expanded to a numeric OID
+ */
+interface ObjectIdentifierMacro {
+  name: string
+  oid: string
+}
+
+/**
+ * Schema File Writer
+ *
+ * Writes definitions as an OpenLDAP slapd.conf `.schema` file, the reverse of SchemaFileReader:
+ * `objectidentifier` macros first, then the `ldapsyntax`, `attributetype`, `objectclass` and
+ * `ditcontentrule` directives, each type in a section under a comment header. Every definition
+ * is written with serializeSchema, one clause per indented line.
+ *
+ * @example
+ * ```typescript
+ * const text = new SchemaFileWriter({ header: 'custom.schema', objectIdentifiers: { MyAttrs: '1.3.6.1.4.1.99999.1' } }).write([badgeNumber])
+ * // # custom.schema
+ * //
+ * // objectidentifier MyAttrs 1.3.6.1.4.1.99999.1
+ * //
+ * // # Attribute types
+ * //
+ * // attributetype ( MyAttrs:1
+ * //         NAME 'myBadgeNumber'
+ * //         SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )
+ * ```
+ */
+export class SchemaFileWriter {
+  private readonly _options: Required<SchemaFileWriterOptions>
+
+  /**
+   * Constructor - sets the writing options
+   *
+   * @param options - Writer configuration options
+   */
+  public constructor(options?: SchemaFileWriterOptions) {
+    this._options = { objectIdentifiers: {}, header: '', indent: '\t', ...options }
+  }
+
+  /**
+   * Write definitions as a .schema file
+   *
+   * Definitions are grouped by type, attribute types being written before the object classes
+   * using them, and keep their order within their type.
+   *
+   * @param definitions - The definitions, as returned by the parser or built by hand
+   * @returns The file text, ending with a newline
+   * @throws {RFC4512ParserError} VALIDATION_ERROR when a definition type has no slapd.conf directive,
+   *                              INVALID_OID when a macro uses an unknown macro
+   */
+  public write(definitions: LDAPSchemaType[]): string {
+    const macros = this.expandObjectIdentifiers()
+    const sections: string[] = []
+
+    if (this._options.header) {
+      sections.push(this.comment(this._options.header))
+    }
+
+    if (macros.length > 0) {
+      sections.push(macros.map(({ name, oid }, index) => `objectidentifier ${name} ${this.macroForm(oid, macros.slice(0, index))}`).join('\n'))
+    }
+
+    for (const definition of definitions) {
+      if (!SCHEMA_DIRECTIVES[definition.type]) {
+        throw new RFC4512ParserError(
+          `Cannot write ${definition.type} definitions in a schema file. Expected attributeType, objectClass, ldapSyntax or ditContentRule`,
+          RFC4512ErrorType.VALIDATION_ERROR,
+          serializeSchema(definition),
+          { context: 'slapd.conf schema files only have attributetype, objectclass, ldapsyntax and ditcontentrule directives' }
+        )
+      }
+    }
+
+    for (const [type, { directive, header }] of Object.entries(SCHEMA_DIRECTIVES)) {
+      const typeDefinitions = definitions.filter(definition => definition.type === type)
+      if (typeDefinitions.length === 0) {
+        continue
+      }
+
+      sections.push(this.comment(header))
+      for (const definition of typeDefinitions) {
+        sections.push(`${directive} ${serializeSchema(this.withMacroForms(definition, macros), `\n${this._options.indent}`)}`)
+      }
+    }
+
+    return `${sections.join('\n\n')}\n`
+  }
+
+  /**
+   * Expand the configured macros to numeric OIDs, a macro value may use a macro configured before it
+   *
+   * @private
+   * @throws {RFC4512ParserError} INVALID_OID when a macro uses an unknown macro
+   */
+  private expandObjectIdentifiers(): ObjectIdentifierMacro[] {
+    const macros: ObjectIdentifierMacro[] = []
+
+    for (const [name, value] of Object.entries(this._options.objectIdentifiers)) {
+      let oid = value
+      if (/^[a-zA-Z]/.test(value)) {
+        const [macroName, suffix] = value.split(':')
+        const macro = macros.find(macro => macro.name.toLowerCase() === macroName.toLowerCase())
+        if (!macro) {
+          throw new RFC4512ParserError(
+            `Unknown objectIdentifier macro in ${value}. Macros must be defined before they are used`,
+            RFC4512ErrorType.INVALID_OID,
+            `objectidentifier ${name} ${value}`,
+            { context: 'OpenLDAP objectIdentifier macros' }
+          )
+        }
+        oid = suffix === undefined ? macro.oid : `${macro.oid}.${suffix}`
+      }
+      macros.push({ name, oid })
+    }
+
+    return macros
+  }
+
+  /**
+   * Get the macro form of an OID, using the macro closest to it, or the OID itself when no macro covers it
+   *
+   * @private
+   */
+  private macroForm(oid: string, macros: ObjectIdentifierMacro[]): string {
+    let closest: ObjectIdentifierMacro | undefined
+    for (const macro of macros) {
+      if ((oid === macro.oid || oid.startsWith(`${macro.oid}.`)) && macro.oid.length > (closest?.oid.length ?? -1)) {
+        closest = macro
+      }
+    }
+
+    if (!closest) {
+      return oid
+    }
+    return oid === closest.oid ? closest.name : `${closest.name}:${oid.slice(closest.oid.length + 1)}`
+  }
+
+  /**
+   * Set the macro forms of the OID, SYNTAX and references of a definition, so that only the configured macros are used
+   *
+   * @private
+   */
+  private withMacroForms(definition: LDAPSchemaType, macros: ObjectIdentifierMacro[]): LDAPSchemaType {
+    if (definition.type === 'ditStructureRule') {
+      return definition
+    }
+
+    const form = (oid: string) => {
+      const macroForm = this.macroForm(oid, macros)
+      return macroForm === oid ? undefined : macroForm
+    }
+    const written = { ...definition, oidMacro: form(definition.oid) }
+
+    if (written.type === 'attributeType' && written.syntax) {
+      written.syntax = { ...written.syntax, oidMacro: form(written.syntax.oid) }
+    }
+
+    const referenceMacros: Record<string, string | (string | null)[]> = {}
+    for (const clause of REFERENCE_CLAUSES[definition.type] ?? []) {
+      const references: string | string[] | null | undefined = (definition as unknown as Record<string, string | string[] | null | undefined>)[clause]
+      const macroForms = Array.isArray(references) ? references.map(reference => form(reference) ?? null) : references && form(references)
+      if (Array.isArray(macroForms) ? macroForms.some(macroForm => macroForm !== null) : macroForms) {
+        referenceMacros[clause] = macroForms
+      }
+    }
+
+    return Object.assign(written, { referenceMacros: Object.keys(referenceMacros).length > 0 ? referenceMacros : undefined })
+  }
+
+  /**
+   * Write a text as comment lines
+   *
+   * @private
+   */
+  private comment(text: string): string {
+    return text
+      .split(/\r?\n/)
+      .map(line => (line ? `# ${line}` : '#'))
+      .join('\n')
+  }
+}
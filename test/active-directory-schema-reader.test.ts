@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'bun:test'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { ActiveDirectorySchemaReader, RFC4512ErrorType, getActiveDirectorySyntax } from '../src'
+
+/**
+ * Test suite for ActiveDirectorySchemaReader
+ *
+ * This test suite validates the conversion of Active Directory attributeSchema and classSchema
+ * entries to RFC 4512 attribute types and object classes, including the AD syntax mapping.
+ */
+describe('ActiveDirectorySchemaReader', () => {
+  const sample = readFileSync(join(__dirname, 'samples/activeDirectory/schema.ldf'), 'utf-8')
+
+  it('should convert attributeSchema entries to attribute types', () => {
+    const { attributeTypes } = new ActiveDirectorySchemaReader().read(sample)
+
+    expect(attributeTypes.map(attributeType => attributeType.name)).toEqual(['employeeID', 'objectSid', 'lastLogonTimestamp'])
+    expect(attributeTypes[0]).toEqual({
+      type: 'attributeType',
+      oid: '1.2.840.113556.1.4.35',
+      name: 'employeeID',
+      names: ['employeeID'],
+      desc: 'Employee-ID',
+      obsolete: false,
+      syntax: { oid: '1.3.6.1.4.1.1466.115.121.1.15', length: 16 },
+      singleValue: true,
+    })
+  })
+
+  it('should map systemOnly to NO-USER-MODIFICATION and AD syntaxes to their LDAP OID', () => {
+    const { attributeTypes } = new ActiveDirectorySchemaReader().read(sample)
+
+    expect(attributeTypes[1].noUserModification).toBe(true)
+    expect(attributeTypes[1].syntax).toEqual({ oid: '1.3.6.1.4.1.1466.115.121.1.40' })
+    expect(attributeTypes[2].syntax).toEqual({ oid: '1.2.840.113556.1.4.906' })
+  })
+
+  it('should convert classSchema entries to object classes', () => {
+    const { objectClasses } = new ActiveDirectorySchemaReader().read(sample)
+
+    expect(objectClasses.map(objectClass => [objectClass.name, objectClass.objectClassType])).toEqual([
+      ['top', 'ABSTRACT'],
+      ['person', undefined],
+      ['mailRecipient', 'AUXILIARY'],
+    ])
+    expect(objectClasses[0].sup).toBeUndefined()
+    expect(objectClasses[1].sup).toEqual(['top'])
+    expect(objectClasses[1].must).toEqual(['cn'])
+    expect(objectClasses[1].may).toEqual(['userPassword', 'telephoneNumber', 'sn', 'seeAlso', 'attributeCertificateAttribute'])
+    expect(objectClasses[2].desc).toBe('Mail recipient')
+  })
+
+  it('should report entries that cannot be converted', () => {
+    const { errors } = new ActiveDirectorySchemaReader().read(sample)
+
+    expect(errors.map(({ attribute, line, error }) => [attribute, line, error.errorType])).toEqual([
+      ['attributeSyntax', 51, RFC4512ErrorType.INVALID_FIELD],
+      ['governsID', 101, RFC4512ErrorType.MISSING_FIELD],
+    ])
+  })
+
+  it('should validate attributeID and lDAPDisplayName', () => {
+    const ldif = [
+      'dn: CN=Bad-OID,CN=Schema',
+      'objectClass: attributeSchema',
+      'attributeID: 1.2.840.0113556',
+      'attributeSyntax: 2.5.5.12',
+      'oMSyntax: 64',
+      'lDAPDisplayName: badOID',
+      '',
+      'dn: CN=Bad-Name,CN=Schema',
+      'objectClass: classSchema',
+      'governsID: 1.2.3.4',
+      'lDAPDisplayName: 1badName',
+    ].join('\n')
+
+    const { errors } = new ActiveDirectorySchemaReader().read(ldif)
+
+    expect(errors.map(({ attribute, error }) => [attribute, error.errorType])).toEqual([
+      ['attributeID', RFC4512ErrorType.INVALID_OID],
+      ['lDAPDisplayName', RFC4512ErrorType.INVALID_NAME],
+    ])
+  })
+
+  it('should ignore entries that are not schema entries', () => {
+    const { attributeTypes, objectClasses, errors } = new ActiveDirectorySchemaReader().read('dn: CN=Schema,CN=Configuration\nobjectClass: dMD\n')
+
+    expect([attributeTypes, objectClasses, errors]).toEqual([[], [], []])
+  })
+})
+
+describe('getActiveDirectorySyntax', () => {
+  it('should map attributeSyntax and oMSyntax pairs to LDAP syntax OIDs', () => {
+    expect(getActiveDirectorySyntax('2.5.5.12', 64)).toBe('1.3.6.1.4.1.1466.115.121.1.15')
+    expect(getActiveDirectorySyntax('2.5.5.9', '2')).toBe('1.3.6.1.4.1.1466.115.121.1.27')
+    expect(getActiveDirectorySyntax('2.5.5.1', 127)).toBe('1.3.6.1.4.1.1466.115.121.1.12')
+    expect(getActiveDirectorySyntax('2.5.5.11', 24)).toBe('1.3.6.1.4.1.1466.115.121.1.24')
+  })
+
+  it('should return null for unknown pairs', () => {
+    expect(getActiveDirectorySyntax('2.5.5.12', 4)).toBeNull()
+    expect(getActiveDirectorySyntax('2.5.5.99', 64)).toBeNull()
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'bun:test'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { ApacheDSSchemaReader, RFC4512ErrorType } from '../src'
+
+/**
+ * Test suite for ApacheDSSchemaReader
+ *
+ * This test suite validates the conversion of ApacheDS meta schema entries (m-oid, m-name,
+ * m-must... attributes) to RFC 4512 definitions, validated by RFC4512Parser.
+ */
+describe('ApacheDSSchemaReader', () => {
+  const sample = readFileSync(join(__dirname, 'samples/apacheds/schema.ldif'), 'utf-8')
+
+  it('should group the converted definitions by kind and ignore other entries', () => {
+    const schema = new ApacheDSSchemaReader().read(sample)
+
+    expect(schema.ldapSyntaxes.map(syntax => syntax.desc)).toEqual(['Directory String'])
+    expect(schema.matchingRules.map(rule => [rule.name, rule.syntax])).toEqual([['caseIgnoreMatch', '1.3.6.1.4.1.1466.115.121.1.15']])
+    expect(schema.attributeTypes.map(attributeType => attributeType.name)).toEqual(['cn', 'name', 'm-oid'])
+    expect(schema.objectClasses.map(objectClass => objectClass.name)).toEqual(['person'])
+  })
+
+  it('should convert metaAttributeType entries', () => {
+    const [cn, name, oid] = new ApacheDSSchemaReader().read(sample).attributeTypes
+
+    expect(cn.names).toEqual(['cn', 'commonName'])
+    expect(cn.desc).toBe('RFC2256: common name(s) for which the entity is known by')
+    expect(cn.sup).toBe('name')
+    expect(name.syntax).toEqual({ oid: '1.3.6.1.4.1.1466.115.121.1.15', length: 32768 })
+    expect(name.substr).toBe('caseIgnoreSubstringsMatch')
+    expect(name.usage).toBe('userApplications')
+    expect(oid.singleValue).toBe(true)
+    expect(oid.obsolete).toBe(false)
+  })
+
+  it('should convert metaObjectClass entries', () => {
+    const [person] = new ApacheDSSchemaReader().read(sample).objectClasses
+
+    expect(person).toMatchObject({
+      oid: '2.5.6.6',
+      sup: ['top'],
+      objectClassType: 'STRUCTURAL',
+      must: ['sn', 'cn'],
+      may: ['userPassword', 'telephoneNumber'],
+    })
+  })
+
+  it('should convert DIT content rules, DIT structure rules and name forms', () => {
+    const ldif = [
+      'dn: m-oid=2.5.6.6,ou=ditContentRules,cn=other,ou=schema',
+      'objectclass: metaDITContentRule',
+      'm-oid: 2.5.6.6',
+      'm-name: personContentRule',
+      'm-aux: mailRecipient',
+      'm-not: userPassword',
+      '',
+      'dn: m-oid=1.3.6.1.1.10.15.1,ou=nameForms,cn=other,ou=schema',
+      'objectclass: metaNameForm',
+      'm-oid: 1.3.6.1.1.10.15.1',
+      'm-name: personNameForm',
+      'm-oc: person',
+      'm-must: cn',
+      '',
+      'dn: m-ruleId=2,ou=ditStructureRules,cn=other,ou=schema',
+      'objectclass: metaDITStructureRule',
+      'm-ruleId: 2',
+      'm-name: personStructureRule',
+      'm-form: personNameForm',
+      'm-supDITStructureRule: 1',
+      'm-supDITStructureRule: 3',
+    ].join('\n')
+
+    const schema = new ApacheDSSchemaReader().read(ldif)
+
+    expect(schema.errors).toEqual([])
+    expect(schema.ditContentRules[0]).toMatchObject({ oid: '2.5.6.6', aux: ['mailRecipient'], not: ['userPassword'] })
+    expect(schema.nameForms[0]).toMatchObject({ name: 'personNameForm', oc: 'person', must: ['cn'] })
+    expect(schema.ditStructureRules[0]).toMatchObject({ ruleId: 2, form: 'personNameForm', sup: [1, 3] })
+  })
+
+  it('should escape quotes of descriptions', () => {
+    const ldif = ['dn: m-oid=1.2.3.4,ou=attributeTypes', 'objectclass: metaAttributeType', 'm-oid: 1.2.3.4', 'm-name: quoted', "m-description: O'Brien's attribute", 'm-syntax: 1.3.6.1.4.1.1466.115.121.1.15'].join('\n')
+
+    expect(new ApacheDSSchemaReader().read(ldif).attributeTypes[0].desc).toBe("O'Brien's attribute")
+  })
+
+  it('should report entries failing the parser validation', () => {
+    const { errors } = new ApacheDSSchemaReader().read(sample)
+
+    expect(errors.map(({ attribute, line, error }) => [attribute, line, error.errorType])).toEqual([
+      ['m-oid', 73, RFC4512ErrorType.INVALID_NAME],
+      ['m-oid', 83, RFC4512ErrorType.MISSING_FIELD],
+    ])
+    expect(errors[0].value).toBe("( 2.5.6.7 NAME 'organizationalPerson' SUP person STRUCTURAL MAY ( title $ 1invalid ) )")
+  })
+
+  it('should report syntax errors on the m-* attribute at fault', () => {
+    const ldif = ['dn: m-oid=1.2.3.4,ou=attributeTypes', 'objectclass: metaAttributeType', 'm-oid: 1.2.3.4', 'm-name: first', 'm-usage: everywhere'].join('\n')
+    const { errors } = new ApacheDSSchemaReader().read(ldif)
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0].attribute).toBe('m-usage')
+    expect(errors[0].line).toBe(5)
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'bun:test'
+import { RFC4512Parser, RFC4512ErrorType, RFC4512ParserError, type LDAPAttributeTypeInterface } from '../src'
+
+/**
+ * Test suite for RFC4512Parser - attributeType clause order
+ *
+ * Attribute type clauses following NAME are accepted in any order by default.
+ * The strictAttributeTypeOrder option reports clauses written out of RFC 4512 order.
+ */
+describe('RFC4512Parser - AttributeType Clause Order', () => {
+  const outOfOrder = "( 2.5.4.4 NAME 'sn' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 EQUALITY caseIgnoreMatch SUP name )"
+
+  it('should parse attributeType clauses in any order', () => {
+    const parser = new RFC4512Parser()
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>(outOfOrder)
+
+    expect(result.type).toBe('attributeType')
+    expect(result.sup).toBe('name')
+    expect(result.equality).toBe('caseIgnoreMatch')
+    expect(result.syntax?.oid).toBe('1.3.6.1.4.1.1466.115.121.1.15')
+  })
+
+  it('should parse flags and USAGE before other clauses', () => {
+    const parser = new RFC4512Parser()
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>(
+      "( 2.5.18.1 NAME 'createTimestamp' USAGE directoryOperation NO-USER-MODIFICATION SINGLE-VALUE ORDERING generalizedTimeOrderingMatch EQUALITY generalizedTimeMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.24 DESC 'creation time' )",
+    )
+
+    expect(result.usage).toBe('directoryOperation')
+    expect(result.noUserModification).toBe(true)
+    expect(result.singleValue).toBe(true)
+    expect(result.ordering).toBe('generalizedTimeOrderingMatch')
+    expect(result.equality).toBe('generalizedTimeMatch')
+    expect(result.desc).toBe('creation time')
+  })
+
+  it('should accept clauses in RFC order in strict mode', () => {
+    const parser = new RFC4512Parser({ strictAttributeTypeOrder: true })
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>(
+      "( 2.5.4.4 NAME 'sn' DESC 'surname' SUP name EQUALITY caseIgnoreMatch SUBSTR caseIgnoreSubstringsMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 SINGLE-VALUE )",
+    )
+
+    expect(result.sup).toBe('name')
+    expect(result.singleValue).toBe(true)
+  })
+
+  it('should report clauses out of RFC order in strict mode', () => {
+    const parser = new RFC4512Parser({ strictAttributeTypeOrder: true })
+
+    expect(() => parser.parseSchema(outOfOrder)).toThrow(/EQUALITY clause must appear before SYNTAX clause/)
+  })
+
+  it('should position the strict-order error on the misplaced clause', () => {
+    const parser = new RFC4512Parser({ strictAttributeTypeOrder: true })
+
+    try {
+      parser.parseSchema(outOfOrder)
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      const parserError = error as RFC4512ParserError
+      expect(parserError.errorType).toBe(RFC4512ErrorType.ATTRIBUTETYPE_ERROR)
+      expect(parserError.position?.offset).toBe(outOfOrder.indexOf('EQUALITY'))
+      expect(parserError.context).toContain('RFC 4512 Section 4.1.2')
+    }
+  })
+})
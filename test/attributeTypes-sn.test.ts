@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'bun:test'
-import { RFC4512Parser } from '../src'
+import { LDAPAttributeTypeInterface, RFC4512Parser } from '../src'
 import { readFileSync } from 'node:fs'
 import { join } from 'node:path'
 
@@ -66,6 +66,18 @@ describe('RFC4512Parser - sn AttributeType LDIF', () => {
     expect(result.name).toBe('sn')
   })
 
+  /**
+   * Test: NAME aliases extraction
+   * Verifies that every alias of the NAME clause is kept, in definition order,
+   * the first one being the primary name
+   */
+  it('should keep every NAME alias of the sn attributeType', () => {
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>(ldifContent)
+
+    expect(result.names).toEqual(['sn', 'surname'])
+    expect(result.names[0]).toBe(result.name)
+  })
+
   /**
    * Test: DESCRIPTION extraction
    * Verifies that the parser correctly extracts the description field
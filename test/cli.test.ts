@@ -246,9 +246,8 @@ describe('RFC4512 Parser CLI', () => {
     const jsonOutput = JSON.parse(result.stdout)
     expect(jsonOutput.success).toBe(true)
     expect(jsonOutput.data.oid).toBe('2.5.4.4')
-    // Note: Current parser implementation only returns the first name
-    // This might be a limitation that needs to be addressed in the parser
     expect(jsonOutput.data.name).toBe('sn')
+    expect(jsonOutput.data.names).toEqual(['sn', 'surname'])
   })
 
   /**
@@ -260,8 +259,8 @@ describe('RFC4512 Parser CLI', () => {
 
     expect(result.exitCode).toBe(0)
     expect(result.stdout).toContain('✅ Parse Success')
-    // Note: Current parser implementation only returns the first name
     expect(result.stdout).toContain('Name: sn')
+    expect(result.stdout).toContain('Names: sn, surname')
     expect(result.stdout).toContain('OID: 2.5.4.4')
   })
 
@@ -282,4 +281,126 @@ describe('RFC4512 Parser CLI', () => {
       expect(jsonOutput.data.name).toBeDefined()
     }
   })
+
+  /**
+   * Test: CLI with an olcSchemaConfig LDIF file
+   */
+  it('should parse every definition of an olcSchemaConfig LDIF file', async () => {
+    const sampleFile = join(__dirname, 'samples/olcSchemaConfig/custom.ldif')
+    const result = await runCli(['--input', sampleFile, '--format', 'json'])
+
+    expect(result.exitCode).toBe(0)
+
+    const jsonOutput = JSON.parse(result.stdout)
+    expect(jsonOutput.success).toBe(true)
+    expect(jsonOutput.data).toHaveLength(1)
+    expect(jsonOutput.data[0].dn).toBe('cn={4}custom,cn=schema,cn=config')
+    expect(jsonOutput.data[0].definitions.map((definition: { line: number }) => definition.line)).toEqual([11, 14, 15])
+  })
+
+  /**
+   * Test: Pretty format lists LDIF definitions with their line numbers
+   */
+  it('should display LDIF definitions and errors with their line numbers', async () => {
+    const inputFile = createTempFile([
+      'dn: cn=test,cn=schema,cn=config',
+      "olcAttributeTypes: {0}( 1.2.3.4 NAME 'first' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )",
+      "olcAttributeTypes: {1}( 1.2.3.5 NAME 'second' SYNTAX",
+    ].join('\n'))
+
+    const result = await runCli(['--input', inputFile])
+
+    expect(result.exitCode).toBe(1)
+    expect(result.stdout).toContain('cn=test,cn=schema,cn=config (line 1)')
+    expect(result.stdout).toContain('✅ olcAttributeTypes (line 2)')
+    expect(result.stdout).toContain('Name: first')
+    expect(result.stdout).toContain('❌ olcAttributeTypes (line 3)')
+  })
+
+  /**
+   * Test: Subschema subentry dumps are read as such
+   */
+  it('should parse every definition of a subschema subentry dump', async () => {
+    const sampleFile = join(__dirname, 'samples/subschema/subschema.ldif')
+    const result = await runCli(['--input', sampleFile, '--format', 'json'])
+
+    expect(result.exitCode).toBe(1)
+
+    const jsonOutput = JSON.parse(result.stdout)
+    expect(jsonOutput.data[0].dn).toBe('cn=Subschema')
+    expect(jsonOutput.data[0].definitions).toHaveLength(11)
+    expect(jsonOutput.data[0].errors.map((error: { line: number }) => error.line)).toEqual([23])
+  })
+
+  /**
+   * Test: LDIF files without schema definitions are reported
+   */
+  it('should fail on LDIF files without schema definitions', async () => {
+    const inputFile = createTempFile(['dn: o=example', 'objectClass: organization', 'o: example'].join('\n'))
+    const result = await runCli(['--input', inputFile])
+
+    expect(result.exitCode).toBe(1)
+    expect(result.stdout).toContain('❌ Parse Error: No schema definitions found')
+    expect(result.stderr).toContain('No schema definitions found')
+  })
+
+  /**
+   * Test: Schema format converts LDIF definitions to a .schema file
+   */
+  it('should write the definitions of an LDIF file as a .schema file', async () => {
+    const sampleFile = join(__dirname, 'samples/olcSchemaConfig/custom.ldif')
+    const outputFile = createTempFile('', '.schema')
+    const result = await runCli(['--input', sampleFile, '--format', 'schema', '--output', outputFile])
+
+    expect(result.exitCode).toBe(0)
+
+    const schemaFile = readFileSync(outputFile, 'utf-8')
+    expect(schemaFile).toContain('objectidentifier MyAttrs MyRoot:1')
+    expect(schemaFile).toContain("attributetype ( MyAttrs:1\n\tNAME 'myBadgeNumber'")
+    expect(schemaFile).toContain("objectclass ( MyClasses:1\n\tNAME 'myEmployee'")
+  })
+
+  /**
+   * Test: Text files holding several definitions are parsed definition by definition
+   */
+  it('should parse every definition of a text file', async () => {
+    const inputFile = createTempFile([
+      "( 2.5.4.41 NAME 'name' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )",
+      "( 2.5.4.3 NAME 'cn'\n  SUP name )",
+      "( 2.5.4.4 NAME 'sn' SUP name FOO )",
+    ].join('\n'), '.txt')
+    const result = await runCli(['--input', inputFile, '--format', 'json'])
+
+    expect(result.exitCode).toBe(1)
+
+    const jsonOutput = JSON.parse(result.stdout)
+    expect(jsonOutput.success).toBe(false)
+    expect(jsonOutput.data.map((definition: { line: number; schema: { name: string } }) => [definition.line, definition.schema.name])).toEqual([[1, 'name'], [2, 'cn']])
+    expect(jsonOutput.errors.map((error: { line: number }) => error.line)).toEqual([4])
+  })
+
+  /**
+   * Test: slapd.conf .schema files are read with their directives
+   */
+  it('should parse every directive of a .schema file', async () => {
+    const sampleFile = join(__dirname, 'samples/schema/custom.schema')
+    const result = await runCli(['--input', sampleFile])
+
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('objectIdentifier MyAttrs: 1.3.6.1.4.1.99999.1')
+    expect(result.stdout).toContain('✅ attributetype (line 10)')
+    expect(result.stdout).toContain('✅ Parse Success (3 definition(s))')
+  })
+
+  /**
+   * Test: Output files that cannot be written are reported
+   */
+  it('should report an output file that cannot be written', async () => {
+    const schema = "( 2.5.4.3 NAME 'cn' SUP name )"
+    const result = await runCli([schema, '--output', join(tmpdir(), `missing-${Date.now()}`, 'result.json')])
+
+    expect(result.exitCode).toBe(1)
+    expect(result.stderr).toContain('Cannot write to')
+    expect(result.stderr).not.toContain('Uncaught exception')
+  })
 })
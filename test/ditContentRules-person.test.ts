@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { RFC4512Parser, RFC4512ErrorType, RFC4512ParserError, type LDAPDITContentRuleInterface } from '../src'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+/**
+ * Test suite for DIT content rule definitions (olcDitContentRules) using sample file.
+ */
+describe('RFC4512Parser - DIT content rule definitions (sample file)', () => {
+  const samplePath = join(__dirname, 'samples/olcDitContentRules/person.ldif')
+  const ditContentRuleDefinition = readFileSync(samplePath, 'utf-8').trim()
+  let parser: RFC4512Parser
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+  })
+
+  it('should detect and parse the DIT content rule', () => {
+    const result = parser.parseSchema<LDAPDITContentRuleInterface>(ditContentRuleDefinition)
+
+    expect(result.type).toBe('ditContentRule')
+    expect(result.oid).toBe('2.5.6.6')
+    expect(result.name).toBe('personContentRule')
+    expect(result.desc).toBe('Content rule for person entries')
+    expect(result.aux).toEqual(['posixAccount', 'shadowAccount'])
+    expect(result.must).toEqual(['uid'])
+    expect(result.may).toEqual(['mail', 'description'])
+    expect(result.not).toEqual(['userPassword'])
+    expect(result.obsolete).toBe(false)
+  })
+
+  it('should parse a rule with only MUST and MAY when the type is given', () => {
+    const result = parser.parseSchema<LDAPDITContentRuleInterface>("( 2.5.6.6 NAME 'personContentRule' MUST uid MAY mail )", 'ditContentRule')
+
+    expect(result.type).toBe('ditContentRule')
+    expect(result.aux).toBeNull()
+    expect(result.not).toBeNull()
+  })
+
+  it('should not detect a rule with only MUST and MAY, which reads like an objectClass', () => {
+    expect(() => parser.parseSchema("( 2.5.6.6 NAME 'person' MUST cn MAY sn )")).toThrow('ObjectClass must specify exactly one type')
+    expect(() => parser.parseSchema("( 2.5.4.3 NAME 'cn' DESC 'x' )")).toThrow(RFC4512ParserError)
+    expect(parser.isValidSchema("( 2.5.4.3 NAME 'cn' )")).toBe(false)
+  })
+
+  it('should reject an OID that is not a structural objectClass OID', () => {
+    try {
+      parser.parseSchema("( 2.5.6. NAME 'personContentRule' AUX posixAccount )", 'ditContentRule')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.INVALID_OID)
+      expect((error as RFC4512ParserError).message).toMatch(/structural objectClass/)
+    }
+  })
+
+  it('should reject attributes both precluded and required', () => {
+    expect(() => parser.parseSchema("( 2.5.6.6 AUX posixAccount MUST uid NOT uid )")).toThrow(/Attributes cannot appear in NOT/)
+  })
+
+  it('should validate object class names in AUX', () => {
+    expect(() => parser.parseSchema("( 2.5.6.6 AUX ( posixAccount $ 1bad ) )")).toThrow(/Invalid objectClass name in AUX/)
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { RFC4512Parser, RFC4512ErrorType, RFC4512ParserError, hasSchemaOid, type LDAPDITStructureRuleInterface, type LDAPNameFormInterface } from '../src'
+
+/**
+ * Test suite for DIT structure rule and name form definitions
+ *
+ * Definitions are taken from the UDDI schema (RFC 4403), which uses
+ * name forms and DIT structure rules to define its naming hierarchy.
+ */
+describe('RFC4512Parser - DIT structure rules and name forms', () => {
+  let parser: RFC4512Parser
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+  })
+
+  describe('DIT structure rules', () => {
+    it('should parse a structure rule identified by a rule ID', () => {
+      const result = parser.parseSchema<LDAPDITStructureRuleInterface>("( 1 NAME 'uddiBusinessEntityStructureRule' FORM uddiBusinessEntityNameForm )")
+
+      expect(result.type).toBe('ditStructureRule')
+      expect(result.ruleId).toBe(1)
+      expect(result.name).toBe('uddiBusinessEntityStructureRule')
+      expect(result.form).toBe('uddiBusinessEntityNameForm')
+      expect(result.sup).toBeNull()
+      expect(result).not.toHaveProperty('oid')
+    })
+
+    it('should tell structure rules apart from the definitions identified by an OID', () => {
+      const rule = parser.parseSchema("( 1 NAME 'uddiBusinessEntityStructureRule' FORM uddiBusinessEntityNameForm )")
+      const nameForm = parser.parseSchema("( 1.3.6.1.1.10.15.1 NAME 'uddiBusinessEntityNameForm' OC uddiBusinessEntity MUST ( uddiBusinessKey ) )")
+
+      expect(rule.oid).toBeUndefined()
+      expect(hasSchemaOid(rule)).toBe(false)
+      expect(hasSchemaOid(nameForm)).toBe(true)
+      expect(nameForm.oid).toBe('1.3.6.1.1.10.15.1')
+    })
+
+    it('should parse space separated superior rule IDs', () => {
+      const result = parser.parseSchema<LDAPDITStructureRuleInterface>("( 3 NAME 'uddiAddressStructureRule' FORM uddiAddressNameForm SUP ( 2 1 ) DESC 'Addresses' )")
+
+      expect(result.ruleId).toBe(3)
+      expect(result.sup).toEqual([2, 1])
+      expect(result.desc).toBe('Addresses')
+    })
+
+    it('should accept a single superior rule ID and recursive rules', () => {
+      const result = parser.parseSchema<LDAPDITStructureRuleInterface>('( 4 FORM ouNameForm SUP 4 )')
+
+      expect(result.sup).toEqual([4])
+      expect(result.names).toEqual([])
+    })
+
+    it('should require FORM', () => {
+      try {
+        parser.parseSchema("( 1 NAME 'noFormRule' )", 'ditStructureRule')
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(RFC4512ParserError)
+        expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.MISSING_FIELD)
+      }
+    })
+
+    it('should not report an OID for structure rules', () => {
+      expect(parser.extractOID('( 1 FORM uddiBusinessEntityNameForm )')).toBeNull()
+      expect(parser.isValidSchema('( 1 FORM uddiBusinessEntityNameForm )')).toBe(true)
+    })
+  })
+
+  describe('Name forms', () => {
+    it('should parse a name form', () => {
+      const result = parser.parseSchema<LDAPNameFormInterface>(
+        "( 1.3.6.1.1.10.15.1 NAME 'uddiBusinessEntityNameForm' OC uddiBusinessEntity MUST ( uddiBusinessKey ) MAY uddiAuthorizedName )",
+      )
+
+      expect(result.type).toBe('nameForm')
+      expect(result.oid).toBe('1.3.6.1.1.10.15.1')
+      expect(result.name).toBe('uddiBusinessEntityNameForm')
+      expect(result.oc).toBe('uddiBusinessEntity')
+      expect(result.must).toEqual(['uddiBusinessKey'])
+      expect(result.may).toEqual(['uddiAuthorizedName'])
+    })
+
+    it('should require MUST', () => {
+      expect(() => parser.parseSchema("( 1.3.6.1.1.10.15.1 NAME 'uddiBusinessEntityNameForm' OC uddiBusinessEntity )")).toThrow(/MUST/)
+    })
+
+    it('should reject overlapping MUST and MAY', () => {
+      expect(() => parser.parseSchema('( 1.2.3 OC device MUST cn MAY cn )')).toThrow(/Attributes cannot appear in both MUST and MAY/)
+    })
+
+    it('should validate the OID', () => {
+      try {
+        parser.parseSchema('( 1.2.3. OC device MUST cn )', 'nameForm')
+        expect.unreachable()
+      } catch (error) {
+        expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.INVALID_OID)
+      }
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { RFC4512Parser, RFC4512ErrorType, RFC4512ParserError, type LDAPObjectClassInterface } from '../src'
+
+/**
+ * Test suite for RFC4512Parser - duplicate clause detection
+ *
+ * A clause may appear at most once in a schema definition. This test suite validates
+ * that repeated clauses and X- extensions are reported with both occurrences.
+ */
+describe('RFC4512Parser - Duplicate Clauses', () => {
+  let parser: RFC4512Parser
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+  })
+
+  function parseError(definition: string, type?: Parameters<RFC4512Parser['parseSchema']>[1]): RFC4512ParserError {
+    try {
+      parser.parseSchema(definition, type)
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      return error as RFC4512ParserError
+    }
+    throw new Error('Expected a parse error')
+  }
+
+  it('should report a duplicate DESC on objectClasses with both positions', () => {
+    const definition = "( 2.5.6.6 NAME 'person' DESC 'first' SUP top DESC 'second' STRUCTURAL )"
+    const error = parseError(definition)
+
+    expect(error.errorType).toBe(RFC4512ErrorType.DUPLICATE_CLAUSE)
+    expect(error.message).toBe('Duplicate DESC clause (first defined at line 1, column 25)')
+    expect(error.position?.offset).toBe(definition.lastIndexOf('DESC'))
+  })
+
+  it('should report a duplicate MUST on objectClasses', () => {
+    const error = parseError("( 2.5.6.6 NAME 'person' SUP top STRUCTURAL MUST sn MAY cn MUST cn )")
+
+    expect(error.errorType).toBe(RFC4512ErrorType.DUPLICATE_CLAUSE)
+    expect(error.message).toContain('Duplicate MUST clause')
+  })
+
+  it('should report duplicate clauses on attributeTypes', () => {
+    const error = parseError("( 2.5.4.4 NAME 'sn' SUP name EQUALITY caseIgnoreMatch EQUALITY caseExactMatch )")
+
+    expect(error.errorType).toBe(RFC4512ErrorType.DUPLICATE_CLAUSE)
+    expect(error.message).toContain('Duplicate EQUALITY clause')
+  })
+
+  it('should report a duplicate NAME with both positions', () => {
+    const definition = "( 2.5.4.3 NAME 'cn' DESC 'common name' NAME 'commonName' SUP name )"
+    const error = parseError(definition)
+
+    expect(error.errorType).toBe(RFC4512ErrorType.DUPLICATE_CLAUSE)
+    expect(error.message).toBe('Duplicate NAME clause (first defined at line 1, column 11)')
+    expect(error.position?.offset).toBe(definition.lastIndexOf('NAME'))
+    expect(parseError("( 2.5.6.6 NAME 'person' SUP top NAME 'human' STRUCTURAL )").errorType).toBe(RFC4512ErrorType.DUPLICATE_CLAUSE)
+    expect(parseError("( 1 NAME 'rule' FORM ouNameForm NAME 'rule2' )").errorType).toBe(RFC4512ErrorType.DUPLICATE_CLAUSE)
+  })
+
+  it('should report a NAME that does not directly follow the OID', () => {
+    const error = parseError("( 1 FORM ouNameForm NAME 'rule' )")
+
+    expect(error.errorType).toBe(RFC4512ErrorType.SYNTAX_ERROR)
+    expect(error.message).toBe('NAME clause must directly follow the OID')
+  })
+
+  it('should report duplicate clauses on other definition kinds', () => {
+    expect(parseError("( 2.5.13.2 NAME 'caseIgnoreMatch' APPLIES cn APPLIES sn )").errorType).toBe(RFC4512ErrorType.DUPLICATE_CLAUSE)
+    expect(parseError("( 2.5.13.2 NAME 'caseIgnoreMatch' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )", 'matchingRule').errorType).toBe(
+      RFC4512ErrorType.DUPLICATE_CLAUSE,
+    )
+    expect(parseError("( 1 NAME 'uddiBusinessEntityStructureRule' FORM uddiBusinessEntityNameForm FORM uddiContactNameForm )").errorType).toBe(
+      RFC4512ErrorType.DUPLICATE_CLAUSE,
+    )
+  })
+
+  it('should report repeated X- extensions', () => {
+    const definition = "( 2.5.6.6 NAME 'person' SUP top STRUCTURAL X-ORIGIN 'RFC 4519' X-ORIGIN 'user defined' )"
+    const error = parseError(definition)
+
+    expect(error.errorType).toBe(RFC4512ErrorType.DUPLICATE_CLAUSE)
+    expect(error.message).toContain('Duplicate X-ORIGIN extension')
+    expect(error.position?.offset).toBe(definition.lastIndexOf('X-ORIGIN'))
+  })
+
+  it('should accept repeated X- extensions when allowDuplicateExtensions is set', () => {
+    const relaxedParser = new RFC4512Parser({ allowDuplicateExtensions: true })
+    const result = relaxedParser.parseSchema<LDAPObjectClassInterface>(
+      "( 2.5.6.6 NAME 'person' SUP top STRUCTURAL X-ORIGIN 'RFC 4519' X-ORIGIN 'user defined' )",
+    )
+
+    expect(result.extensions?.['X-ORIGIN']).toEqual(['RFC 4519', 'user defined'])
+  })
+
+  it('should still report duplicate clauses when allowDuplicateExtensions is set', () => {
+    const relaxedParser = new RFC4512Parser({ allowDuplicateExtensions: true })
+
+    expect(() => relaxedParser.parseSchema("( 2.5.6.6 NAME 'person' SUP top SUP alias STRUCTURAL )")).toThrow(/Duplicate SUP clause/)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'bun:test'
+import { JSONSchemaGenerator, RFC4512ErrorType, RFC4512Parser, RFC4512ParserError, getSyntaxJSONSchema } from '../src'
+
+/**
+ * Test suite for generating JSON Schemas of object class entries
+ *
+ * This test suite validates the syntax to JSON type mapping, the required and array properties of
+ * the generated schemas, and the inheritance of superior classes and attribute syntaxes.
+ */
+describe('getSyntaxJSONSchema', () => {
+  it('should map syntaxes to JSON types and formats', () => {
+    expect(getSyntaxJSONSchema({ oid: '1.3.6.1.4.1.1466.115.121.1.27' })).toEqual({ type: 'integer' })
+    expect(getSyntaxJSONSchema({ oid: '1.3.6.1.4.1.1466.115.121.1.7' })).toEqual({ type: 'boolean' })
+    expect(getSyntaxJSONSchema({ oid: '1.3.6.1.4.1.1466.115.121.1.24' })).toEqual({ type: 'string', format: 'date-time' })
+    expect(getSyntaxJSONSchema({ oid: '1.3.6.1.4.1.1466.115.121.1.40' })).toEqual({ type: 'string', contentEncoding: 'base64' })
+    expect(getSyntaxJSONSchema({ oid: '1.2.3.4.5' })).toEqual({ type: 'string' })
+  })
+
+  it('should take the maxLength of string values from the syntax bound', () => {
+    expect(getSyntaxJSONSchema({ oid: '1.3.6.1.4.1.1466.115.121.1.26', length: 256 })).toEqual({ type: 'string', pattern: '^[\\x00-\\x7F]*$', maxLength: 256 })
+    expect(getSyntaxJSONSchema({ oid: '1.3.6.1.4.1.1466.115.121.1.27', length: 10 })).toEqual({ type: 'integer' })
+    expect(getSyntaxJSONSchema({ oid: '1.3.6.1.4.1.1466.115.121.1.40', length: 128 })).toEqual({ type: 'string', contentEncoding: 'base64' })
+  })
+})
+
+describe('JSONSchemaGenerator', () => {
+  const parser = new RFC4512Parser()
+  const definitions = [
+    "( 2.5.6.0 NAME 'top' ABSTRACT MUST objectClass )",
+    "( 2.5.6.6 NAME 'person' DESC 'RFC2256: a person' SUP top STRUCTURAL MUST ( sn $ cn ) MAY ( userPassword $ description ) )",
+    "( 1.3.6.1.4.1.99999.2.1 NAME 'myEmployee' SUP person STRUCTURAL MUST myBadgeNumber MAY ( myStartDate $ myManager $ myUid ) )",
+    "( 2.5.4.0 NAME 'objectClass' EQUALITY objectIdentifierMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.38 )",
+    "( 2.5.4.41 NAME 'name' EQUALITY caseIgnoreMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.15{32768} )",
+    "( 2.5.4.3 NAME ( 'cn' 'commonName' ) SUP name )",
+    "( 2.5.4.4 NAME ( 'sn' 'surname' ) SUP name )",
+    "( 2.5.4.13 NAME 'description' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15{1024} )",
+    "( 2.5.4.35 NAME 'userPassword' OBSOLETE SYNTAX 1.3.6.1.4.1.1466.115.121.1.40{128} )",
+    "( 1.3.6.1.4.1.99999.1.1 NAME 'myBadgeNumber' DESC 'Badge number' SYNTAX 1.3.6.1.4.1.1466.115.121.1.27 SINGLE-VALUE )",
+    "( 1.3.6.1.4.1.99999.1.2 NAME 'myStartDate' SYNTAX 1.3.6.1.4.1.1466.115.121.1.24 SINGLE-VALUE NO-USER-MODIFICATION USAGE directoryOperation )",
+    "( 1.3.6.1.4.1.99999.1.3 NAME 'myManager' SYNTAX 1.3.6.1.4.1.1466.115.121.1.12 )",
+    "( 1.3.6.1.4.1.99999.1.4 NAME 'myUid' SYNTAX 1.3.6.1.4.1.1466.115.121.1.26{64} SINGLE-VALUE )",
+  ].map(definition => parser.parseSchema(definition))
+
+  it('should generate a draft 2020-12 schema per object class', () => {
+    const schemas = new JSONSchemaGenerator().generate(definitions)
+
+    expect(Object.keys(schemas)).toEqual(['top', 'person', 'myEmployee'])
+    expect(schemas.person).toMatchObject({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'person',
+      description: 'RFC2256: a person',
+      type: 'object',
+      required: ['objectClass', 'sn', 'cn'],
+      additionalProperties: true,
+    })
+    expect(Object.keys(schemas.person.properties!)).toEqual(['objectClass', 'sn', 'cn', 'userPassword', 'description'])
+  })
+
+  it('should write multi-valued attributes as arrays, with the syntax inherited from the superior attribute', () => {
+    const { properties } = new JSONSchemaGenerator().generate(definitions).person
+
+    expect(properties!.cn).toEqual({ type: 'array', items: { type: 'string', minLength: 1, maxLength: 32768 }, minItems: 1, uniqueItems: true })
+    expect(properties!.userPassword).toEqual({ type: 'array', items: { type: 'string', contentEncoding: 'base64' }, minItems: 1, uniqueItems: true, deprecated: true })
+  })
+
+  it('should write single-valued attributes as one value', () => {
+    const schema = new JSONSchemaGenerator({ additionalProperties: false }).generate(definitions).myEmployee
+
+    expect(schema.required).toEqual(['objectClass', 'sn', 'cn', 'myBadgeNumber'])
+    expect(schema.additionalProperties).toBe(false)
+    expect(schema.properties!.myBadgeNumber).toEqual({ description: 'Badge number', type: 'integer' })
+    expect(schema.properties!.myStartDate).toEqual({ type: 'string', format: 'date-time', readOnly: true })
+    expect(schema.properties!.myUid).toEqual({ type: 'string', pattern: '^[\\x00-\\x7F]*$', maxLength: 64 })
+  })
+
+  it('should resolve attributes referenced by alias or OID', () => {
+    const account = parser.parseSchema("( 1.3.6.1.4.1.99999.2.2 NAME 'account' SUP top STRUCTURAL MUST ( commonName $ 2.5.4.4 ) )")
+    const { required } = new JSONSchemaGenerator().generate([...definitions, account]).account
+
+    expect(required).toEqual(['objectClass', 'cn', 'sn'])
+  })
+
+  it('should report unknown superior classes and attribute types', () => {
+    const orphan = parser.parseSchema("( 1.3.6.1.4.1.99999.2.3 NAME 'orphan' SUP top AUXILIARY MAY unknownAttribute )")
+
+    try {
+      new JSONSchemaGenerator().generate([...definitions, orphan])
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.VALIDATION_ERROR)
+      expect((error as RFC4512ParserError).message).toBe('Unknown attribute type unknownAttribute used by object class orphan')
+    }
+
+    expect(() => new JSONSchemaGenerator().generate(definitions.filter(definition => definition.name !== 'top'))).toThrow('Unknown object class top used by object class person')
+  })
+})
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'bun:test'
+import { createReadStream, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  LDIFReader,
+  OlcSchemaConfigReader,
+  RFC4512ErrorType,
+  RFC4512ParserError,
+  type LDAPAttributeTypeInterface,
+  type LDAPObjectClassInterface,
+} from '../src'
+
+/**
+ * Test suite for LDIF reading
+ *
+ * This test suite validates reading LDIF text into entries (unfolding, base64 values,
+ * line numbers, chunked input) and reading the schema definitions of olcSchemaConfig entries.
+ */
+describe('LDIFReader', () => {
+  it('should unfold continuation lines and keep line numbers', () => {
+    const entries = LDIFReader.read(['dn: cn=test', 'description: first', ' second', '# a comment', 'cn: test', ''].join('\n'))
+
+    expect(entries).toEqual([
+      {
+        dn: 'cn=test',
+        line: 1,
+        attributes: [
+          { name: 'description', value: 'firstsecond', line: 2 },
+          { name: 'cn', value: 'test', line: 5 },
+        ],
+      },
+    ])
+  })
+
+  it('should decode base64 values', () => {
+    const entries = LDIFReader.read(`dn:: ${Buffer.from('cn=é').toString('base64')}\ncn:: ${Buffer.from("O'Brien").toString('base64')}\n`)
+
+    expect(entries[0].dn).toBe('cn=é')
+    expect(entries[0].attributes[0].value).toBe("O'Brien")
+  })
+
+  it('should skip the version line and records without a dn', () => {
+    const entries = LDIFReader.read(['version: 1', '', 'dn: cn=a', 'cn: a', '', 'dn: cn=b', 'cn: b', '', 'search: 2', 'result: 0 Success'].join('\r\n'))
+
+    expect(entries.map(entry => entry.dn)).toEqual(['cn=a', 'cn=b'])
+    expect(entries[1].line).toBe(6)
+  })
+
+  it('should return entries as chunks complete them', () => {
+    const reader = new LDIFReader()
+
+    expect(reader.push('dn: cn=a\ndescription: fol')).toEqual([])
+    expect(reader.push('ded\n value\n\ndn: cn=b\n')).toEqual([{ dn: 'cn=a', line: 1, attributes: [{ name: 'description', value: 'foldedvalue', line: 2 }] }])
+    expect(reader.end()).toEqual([{ dn: 'cn=b', line: 5, attributes: [] }])
+  })
+
+  it('should read streams of UTF-8 chunks, even when a character is split between chunks', async () => {
+    const bytes = Buffer.from('dn: cn=Ève\ndescription: café\n\ndn: cn=b\n')
+    async function* chunks() {
+      for (let index = 0; index < bytes.length; index += 3) {
+        yield bytes.subarray(index, index + 3)
+      }
+    }
+
+    const entries = []
+    for await (const entry of LDIFReader.readStream(chunks())) {
+      entries.push(entry)
+    }
+
+    expect(entries).toEqual([
+      { dn: 'cn=Ève', line: 1, attributes: [{ name: 'description', value: 'café', line: 2 }] },
+      { dn: 'cn=b', line: 4, attributes: [] },
+    ])
+  })
+
+  it('should yield stream entries as soon as they are completed', async () => {
+    let pulled = 0
+    async function* chunks() {
+      for (const chunk of ['dn: cn=a\n', '\n', 'dn: cn=b\n', '\n']) {
+        pulled++
+        yield chunk
+      }
+    }
+
+    const stream = LDIFReader.readStream(chunks())
+    const first = await stream.next()
+
+    expect(first.value?.dn).toBe('cn=a')
+    expect(pulled).toBe(2)
+  })
+
+  it('should stream attribute values without keeping their entry', async () => {
+    const attributes = []
+    for await (const attribute of LDIFReader.readAttributeStream(['version: 1\n', 'search: 2\n\n', 'dn: cn=a\ndescr', 'iption: fol\n ded\n\ndn: cn=b\no: b\n'])) {
+      attributes.push(attribute)
+    }
+
+    expect(attributes).toEqual([
+      { dn: 'cn=a', entryLine: 4, name: 'description', value: 'folded', line: 5 },
+      { dn: 'cn=b', entryLine: 8, name: 'o', value: 'b', line: 9 },
+    ])
+  })
+
+  it('should report malformed lines with their position', () => {
+    try {
+      LDIFReader.read('dn: cn=test\nnot an attribute\n')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.LDIF_ERROR)
+      expect((error as RFC4512ParserError).position?.line).toBe(2)
+    }
+  })
+
+  it('should reject URL values', () => {
+    expect(() => LDIFReader.read('dn: cn=test\njpegPhoto:< file:///tmp/photo.jpg\n')).toThrow('URL values are not supported')
+  })
+})
+
+describe('OlcSchemaConfigReader', () => {
+  const sample = readFileSync(join(__dirname, 'samples/olcSchemaConfig/custom.ldif'), 'utf-8')
+
+  it('should read the definitions of an olcSchemaConfig entry with their line numbers', () => {
+    const entries = new OlcSchemaConfigReader().read(sample)
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0].dn).toBe('cn={4}custom,cn=schema,cn=config')
+    expect(entries[0].line).toBe(5)
+    expect(entries[0].errors).toEqual([])
+    expect(entries[0].definitions.map(definition => [definition.attribute, definition.line])).toEqual([
+      ['olcAttributeTypes', 11],
+      ['olcAttributeTypes', 14],
+      ['olcObjectClasses', 15],
+    ])
+  })
+
+  it('should expand the objectIdentifier macros of the entry', () => {
+    const [entry] = new OlcSchemaConfigReader().read(sample)
+
+    expect(entry.objectIdentifiers).toEqual({
+      MyRoot: '1.3.6.1.4.1.99999',
+      MyAttrs: '1.3.6.1.4.1.99999.1',
+      MyClasses: '1.3.6.1.4.1.99999.2',
+    })
+
+    const badgeNumber = entry.definitions[0].schema as LDAPAttributeTypeInterface
+    expect(badgeNumber.oid).toBe('1.3.6.1.4.1.99999.1.1')
+    expect(badgeNumber.desc).toBe('Badge number of the employee')
+    expect(badgeNumber.syntax).toEqual({ oid: '1.3.6.1.4.1.1466.115.121.1.15', length: 32 })
+
+    const nickname = entry.definitions[1].schema as LDAPAttributeTypeInterface
+    expect(nickname.desc).toBe("Nickname, e.g. O'Brien")
+
+    const employee = entry.definitions[2].schema as LDAPObjectClassInterface
+    expect(employee.oid).toBe('1.3.6.1.4.1.99999.2.1')
+    expect(employee.must).toEqual(['myBadgeNumber'])
+  })
+
+  it('should stream every value with its entry, like whole texts', async () => {
+    const values = []
+    for await (const value of new OlcSchemaConfigReader().readStream(createReadStream(join(__dirname, 'samples/olcSchemaConfig/custom.ldif'), { highWaterMark: 16 }))) {
+      values.push(value)
+    }
+    const [entry] = new OlcSchemaConfigReader().read(sample)
+
+    expect(values.map(({ dn, entryLine }) => [dn, entryLine])).toEqual(Array(6).fill([entry.dn, entry.line]))
+    expect(Object.fromEntries(values.flatMap(value => (value.objectIdentifier ? [[value.objectIdentifier.name, value.objectIdentifier.oid]] : [])))).toEqual(
+      entry.objectIdentifiers,
+    )
+    expect(values.filter(value => value.schema).map(({ attribute, line, value, schema }) => ({ attribute, line, value, schema }))).toEqual(entry.definitions)
+  })
+
+  it('should yield stream definitions before their entry is completed', async () => {
+    let pulled = 0
+    async function* chunks() {
+      for (const chunk of [
+        'dn: cn=bundle,cn=schema,cn=config\n',
+        "olcAttributeTypes: ( 1.2.3.4 NAME 'first' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )\n",
+        "olcAttributeTypes: ( 1.2.3.5 NAME 'second' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )\n",
+        "olcAttributeTypes: ( 1.2.3.6 NAME 'third' SYNTAX\n",
+      ]) {
+        pulled++
+        yield chunk
+      }
+    }
+
+    const stream = new OlcSchemaConfigReader().readStream(chunks())
+    const first = await stream.next()
+
+    expect(first.value?.schema?.name).toBe('first')
+    expect(pulled).toBe(3)
+
+    const rest = []
+    for await (const value of stream) {
+      rest.push(value)
+    }
+    expect(rest.map(value => [value.line, value.schema?.name, value.error?.errorType])).toEqual([
+      [3, 'second', undefined],
+      [4, undefined, RFC4512ErrorType.SYNTAX_ERROR],
+    ])
+  })
+
+  it('should report invalid values without stopping', () => {
+    const ldif = [
+      'dn: cn=broken,cn=schema,cn=config',
+      'objectClass: olcSchemaConfig',
+      "olcAttributeTypes: {0}( 1.2.3.4 NAME 'first' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )",
+      "olcAttributeTypes: {1}( 1.2.3.5 NAME 'second' SYNTAX",
+      "olcObjectClasses: {0}( 1.2.3.6 NAME 'third' SUP top AUXILIARY MAY first )",
+    ].join('\n')
+
+    const [entry] = new OlcSchemaConfigReader().read(ldif)
+
+    expect(entry.definitions.map(definition => definition.schema.name)).toEqual(['first', 'third'])
+    expect(entry.errors).toHaveLength(1)
+    expect(entry.errors[0].attribute).toBe('olcAttributeTypes')
+    expect(entry.errors[0].line).toBe(4)
+    expect(entry.errors[0].error).toBeInstanceOf(RFC4512ParserError)
+  })
+
+  it('should skip entries without schema attributes', () => {
+    const ldif = ['dn: cn=config', 'objectClass: olcGlobal', '', 'dn: cn=schema,cn=config', 'objectClass: olcSchemaConfig', 'cn: schema'].join('\n')
+
+    expect(new OlcSchemaConfigReader().read(ldif)).toEqual([])
+  })
+})
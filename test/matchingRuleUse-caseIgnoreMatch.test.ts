@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { RFC4512Parser, RFC4512ErrorType, RFC4512ParserError, type LDAPMatchingRuleUseInterface } from '../src'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+/**
+ * Test suite for Matching Rule Use definitions (matchingRuleUse) using sample file.
+ */
+describe('RFC4512Parser - Matching Rule Use definitions (sample file)', () => {
+  const samplePath = join(__dirname, 'samples/matchingRuleUse/caseIgnoreMatch.ldif')
+  const matchingRuleUseDefinition = readFileSync(samplePath, 'utf-8').trim()
+  let parser: RFC4512Parser
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+  })
+
+  it('should detect and parse the matching rule use', () => {
+    const result = parser.parseSchema<LDAPMatchingRuleUseInterface>(matchingRuleUseDefinition)
+
+    expect(result.type).toBe('matchingRuleUse')
+    expect(result.oid).toBe('2.5.13.2')
+    expect(result.name).toBe('caseIgnoreMatch')
+    expect(result.applies).toEqual(['cn', 'sn', 'description', 'title'])
+    expect(result.obsolete).toBe(false)
+  })
+
+  it('should parse with an explicit type', () => {
+    const result = parser.parseSchema<LDAPMatchingRuleUseInterface>(matchingRuleUseDefinition, 'matchingRuleUse')
+
+    expect(result.type).toBe('matchingRuleUse')
+  })
+
+  it('should accept a single APPLIES attribute without parentheses', () => {
+    const result = parser.parseSchema<LDAPMatchingRuleUseInterface>("( 2.5.13.14 NAME 'integerMatch' DESC 'Integers' APPLIES uidNumber X-ORIGIN 'Test' )")
+
+    expect(result.applies).toEqual(['uidNumber'])
+    expect(result.desc).toBe('Integers')
+    expect(result.extensions?.['X-ORIGIN']).toBe('Test')
+  })
+
+  it('should require APPLIES', () => {
+    try {
+      parser.parseSchema("( 2.5.13.2 NAME 'caseIgnoreMatch' )", 'matchingRuleUse')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.MISSING_FIELD)
+    }
+  })
+
+  it('should validate attribute names in APPLIES', () => {
+    expect(() => parser.parseSchema("( 2.5.13.2 NAME 'caseIgnoreMatch' APPLIES ( cn $ 9invalid ) )")).toThrow(/Invalid attribute name in APPLIES/)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { RFC4512Parser, RFC4512ErrorType, RFC4512ParserError, type LDAPMatchingRuleInterface } from '../src'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+/**
+ * Test suite for Matching Rule definitions (matchingRules) using sample file.
+ *
+ * Matching rules with a NAME cannot be told apart from attribute types by their
+ * content, so the definition type is passed explicitly to parseSchema.
+ */
+describe('RFC4512Parser - Matching Rule definitions (sample file)', () => {
+  const samplePath = join(__dirname, 'samples/matchingRules/caseIgnoreMatch.ldif')
+  const matchingRuleDefinition = readFileSync(samplePath, 'utf-8').trim()
+  let parser: RFC4512Parser
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+  })
+
+  it('should parse the matching rule when the type is given', () => {
+    const result = parser.parseSchema<LDAPMatchingRuleInterface>(matchingRuleDefinition, 'matchingRule')
+
+    expect(result.type).toBe('matchingRule')
+    expect(result.oid).toBe('2.5.13.2')
+    expect(result.name).toBe('caseIgnoreMatch')
+    expect(result.names).toEqual(['caseIgnoreMatch'])
+    expect(result.syntax).toBe('1.3.6.1.4.1.1466.115.121.1.15')
+    expect(result.obsolete).toBe(false)
+  })
+
+  it('should parse DESC, OBSOLETE, aliases and extensions in any order', () => {
+    const result = parser.parseSchema<LDAPMatchingRuleInterface>(
+      "( 1.2.3.4 NAME ( 'oldMatch' 'legacyMatch' ) OBSOLETE SYNTAX 1.3.6.1.4.1.1466.115.121.1.27 DESC 'Legacy rule' X-ORIGIN 'Test' )",
+      'matchingRule',
+    )
+
+    expect(result.names).toEqual(['oldMatch', 'legacyMatch'])
+    expect(result.desc).toBe('Legacy rule')
+    expect(result.obsolete).toBe(true)
+    expect(result.syntax).toBe('1.3.6.1.4.1.1466.115.121.1.27')
+    expect(result.extensions?.['X-ORIGIN']).toBe('Test')
+  })
+
+  it('should accept a matching rule without NAME', () => {
+    const result = parser.parseSchema<LDAPMatchingRuleInterface>('( 1.2.3.4 SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )', 'matchingRule')
+
+    expect(result.names).toEqual([])
+  })
+
+  it('should require SYNTAX', () => {
+    try {
+      parser.parseSchema("( 1.2.3.4 NAME 'noSyntaxMatch' )", 'matchingRule')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.MISSING_FIELD)
+    }
+  })
+
+  it('should reject clauses that do not belong to matching rules', () => {
+    expect(() => parser.parseSchema(`( 2.5.13.2 NAME 'caseIgnoreMatch' EQUALITY caseIgnoreMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )`, 'matchingRule')).toThrow(
+      RFC4512ParserError,
+    )
+  })
+
+  it('should keep detecting the definition as an attributeType when no type is given', () => {
+    expect(parser.parseSchema(matchingRuleDefinition).type).toBe('attributeType')
+    expect(parser.parseSchema("( 2.5.13.2 NAME 'caseIgnore' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )").type).toBe('attributeType')
+  })
+
+  it('should detect a matching rule without NAME when no type is given', () => {
+    expect(parser.parseSchema('( 2.5.13.2 SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )').type).toBe('matchingRule')
+  })
+})
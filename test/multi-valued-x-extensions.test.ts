@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { LDAPAttributeTypeInterface, LDAPObjectClassInterface, RFC4512Parser } from '../src'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+/**
+ * Test suite for RFC4512Parser - Multi-valued X-* Extensions
+ *
+ * This test suite validates that X-* extensions written as lists in parentheses,
+ * as found in 389-DS and OpenLDAP schemas, are kept as arrays while single values stay strings.
+ */
+describe('RFC4512Parser - Multi-valued X-* Extensions (departmentNumber)', () => {
+  let parser: RFC4512Parser
+  let ldifContent: string
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+    const ldifPath = join(__dirname, './samples/olcAttributeTypes/departmentNumber.ldif')
+    ldifContent = readFileSync(ldifPath, 'utf-8').trim()
+  })
+
+  it('should keep a list of values as an array', () => {
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>(ldifContent)
+
+    expect(result.extensions?.['X-ORIGIN']).toEqual(['RFC 2798', 'user defined'])
+  })
+
+  it('should keep single values as strings next to lists', () => {
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>(ldifContent)
+
+    expect(result.extensions?.['X-ORDERED']).toBe('VALUES')
+    expect(Object.keys(result.extensions!)).toEqual(['X-ORIGIN', 'X-ORDERED'])
+  })
+
+  it('should parse the rest of the definition', () => {
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>(ldifContent)
+
+    expect(result.name).toBe('departmentNumber')
+    expect(result.equality).toBe('caseIgnoreMatch')
+    expect(result.syntax?.oid).toBe('1.3.6.1.4.1.1466.115.121.1.15')
+  })
+
+  it('should keep a single-element list as an array', () => {
+    const result = parser.parseSchema<LDAPObjectClassInterface>("( 2.5.6.6 NAME 'person' SUP top STRUCTURAL X-ORIGIN ( 'RFC 4519' ) )")
+
+    expect(result.extensions?.['X-ORIGIN']).toEqual(['RFC 4519'])
+  })
+
+  it('should merge repeated extensions into a list when allowDuplicateExtensions is set', () => {
+    const relaxedParser = new RFC4512Parser({ allowDuplicateExtensions: true })
+    const result = relaxedParser.parseSchema<LDAPObjectClassInterface>(
+      "( 2.5.6.6 NAME 'person' SUP top STRUCTURAL X-ORIGIN ( 'RFC 4519' 'RFC 2256' ) X-ORIGIN 'user defined' )",
+    )
+
+    expect(result.extensions?.['X-ORIGIN']).toEqual(['RFC 4519', 'RFC 2256', 'user defined'])
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import {
+  RFC4512ErrorType,
+  RFC4512Parser,
+  RFC4512ParserError,
+  getOidReferenceForm,
+  type LDAPAttributeTypeInterface,
+  type LDAPDITContentRuleInterface,
+  type LDAPObjectClassInterface,
+} from '../src'
+
+/**
+ * Test suite for RFC4512Parser - numeric OID references
+ *
+ * RFC 4512 allows either a descriptor or a numeric OID wherever another schema element
+ * is referenced. This test suite validates both forms and the getOidReferenceForm helper.
+ */
+describe('RFC4512Parser - Numeric OID References', () => {
+  let parser: RFC4512Parser
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+  })
+
+  it('should accept numeric OIDs in objectClass SUP, MUST and MAY', () => {
+    const result = parser.parseSchema<LDAPObjectClassInterface>("( 2.5.6.6 NAME 'person' SUP 2.5.6.0 STRUCTURAL MUST ( 2.5.4.4 $ 2.5.4.3 ) MAY 2.5.4.35 )")
+
+    expect(result.sup).toEqual(['2.5.6.0'])
+    expect(result.must).toEqual(['2.5.4.4', '2.5.4.3'])
+    expect(result.may).toEqual(['2.5.4.35'])
+  })
+
+  it('should accept mixed names and numeric OIDs in one list', () => {
+    const result = parser.parseSchema<LDAPObjectClassInterface>("( 2.5.6.6 NAME 'person' SUP top STRUCTURAL MUST ( sn $ 2.5.4.3 ) )")
+
+    expect(result.must).toEqual(['sn', '2.5.4.3'])
+  })
+
+  it('should accept numeric OIDs in attributeType SUP and matching rules', () => {
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>(
+      "( 2.5.4.41 NAME 'name' SUP 2.5.4.1 EQUALITY 2.5.13.2 ORDERING 2.5.13.3 SUBSTR 2.5.13.4 SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )",
+    )
+
+    expect(result.sup).toBe('2.5.4.1')
+    expect(result.equality).toBe('2.5.13.2')
+    expect(result.ordering).toBe('2.5.13.3')
+    expect(result.substr).toBe('2.5.13.4')
+  })
+
+  it('should accept numeric OIDs in DIT content rules', () => {
+    const result = parser.parseSchema<LDAPDITContentRuleInterface>("( 2.5.6.6 NAME 'personContentRule' AUX 1.3.6.1.1.1.2.0 NOT 2.5.4.35 )")
+
+    expect(result.aux).toEqual(['1.3.6.1.1.1.2.0'])
+    expect(result.not).toEqual(['2.5.4.35'])
+  })
+
+  it('should still reject references that are neither names nor numeric OIDs', () => {
+    expect(() => parser.parseSchema("( 2.5.6.6 NAME 'person' SUP top STRUCTURAL MUST ( 123invalid ) )")).toThrow(/Invalid attribute name/)
+  })
+
+  it('should reject malformed numeric OIDs in attributeType SUP, EQUALITY, ORDERING and SUBSTR', () => {
+    const cases: [string, string][] = [
+      ["( 2.5.4.3 NAME 'cn' SUP 1..2 )", 'Invalid SUP OID format: 1..2 (arc 2 is empty)'],
+      ["( 2.5.4.3 NAME 'cn' SUP name EQUALITY 01.2 )", "Invalid EQUALITY OID format: 01.2 (arc 1 '01' has a leading zero)"],
+      ["( 2.5.4.3 NAME 'cn' SUP name ORDERING 1. )", 'Invalid ORDERING OID format: 1. (trailing dot after arc 1)'],
+      ["( 2.5.4.3 NAME 'cn' SUP name SUBSTR .2.5 )", 'Invalid SUBSTR OID format: .2.5 (arc 1 is empty)'],
+    ]
+
+    for (const [definition, message] of cases) {
+      try {
+        parser.parseSchema(definition, 'attributeType')
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(RFC4512ParserError)
+        expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.INVALID_OID)
+        expect((error as RFC4512ParserError).message).toContain(message)
+      }
+    }
+  })
+
+  it('should reject attributeType references that are neither names nor numeric OIDs', () => {
+    expect(() => parser.parseSchema("( 2.5.4.3 NAME 'cn' SUP 9invalid )", 'attributeType')).toThrow('Invalid SUP format: 9invalid')
+    expect(() => parser.parseSchema("( 2.5.4.3 NAME 'cn' SUP name EQUALITY 9invalid )", 'attributeType')).toThrow('Invalid EQUALITY format: 9invalid')
+    expect(() => parser.parseSchema("( 2.5.4.3 NAME 'cn' SUP name ORDERING 9invalid )", 'attributeType')).toThrow('Invalid ORDERING format: 9invalid')
+    expect(() => parser.parseSchema("( 2.5.4.3 NAME 'cn' SUP name SUBSTR 9invalid )", 'attributeType')).toThrow('Invalid SUBSTR format: 9invalid')
+  })
+
+  it('should record how each reference was written', () => {
+    const result = parser.parseSchema<LDAPObjectClassInterface>("( 2.5.6.6 NAME 'person' SUP top STRUCTURAL MUST ( sn $ 2.5.4.3 ) )")
+
+    expect(result.referenceForms).toEqual({ sup: ['descr'], must: ['descr', 'numericoid'] })
+    expect(
+      parser.parseSchema<LDAPAttributeTypeInterface>("( 2.5.4.41 NAME 'name' SUP 2.5.4.1 EQUALITY caseIgnoreMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )").referenceForms,
+    ).toEqual({ sup: 'numericoid', equality: 'descr' })
+    expect(parser.parseSchema<LDAPDITContentRuleInterface>("( 2.5.6.6 NAME 'personContentRule' AUX posixAccount NOT 2.5.4.35 )").referenceForms).toEqual({
+      aux: ['descr'],
+      not: ['numericoid'],
+    })
+  })
+
+  it('should record references written with an objectIdentifier macro as such once expanded', () => {
+    parser.addObjectIdentifier('MyAttrs', '1.3.6.1.4.1.9999.1')
+    const result = parser.parseSchema<LDAPObjectClassInterface>("( 1.3.6.1.4.1.9999.2.1 NAME 'badged' SUP top AUXILIARY MAY ( MyAttrs:1 $ 1.3.6.1.4.1.9999.1.2 ) )")
+
+    expect(result.may).toEqual(['1.3.6.1.4.1.9999.1.1', '1.3.6.1.4.1.9999.1.2'])
+    expect(result.referenceForms!.may).toEqual(['oidmacro', 'numericoid'])
+  })
+
+  it('should tell descriptors and numeric OIDs apart with getOidReferenceForm', () => {
+    expect(getOidReferenceForm('cn')).toBe('descr')
+    expect(getOidReferenceForm('2.5.4.3')).toBe('numericoid')
+    expect(getOidReferenceForm('123invalid')).toBeNull()
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { RFC4512Parser, RFC4512ErrorType, RFC4512ParserError, validateNumericOid } from '../src'
+
+/**
+ * Test suite for RFC4512Parser - numericoid validation
+ *
+ * RFC 4512 numeric OIDs have at least two arcs, no empty arc and no leading zero.
+ * This test suite validates the shared validator and its use for every definition kind.
+ */
+describe('RFC4512Parser - Numeric OID Validation', () => {
+  let parser: RFC4512Parser
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+  })
+
+  function parseError(definition: string, type?: Parameters<RFC4512Parser['parseSchema']>[1]): RFC4512ParserError {
+    try {
+      parser.parseSchema(definition, type)
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      return error as RFC4512ParserError
+    }
+    throw new Error('Expected a parse error')
+  }
+
+  describe('validateNumericOid', () => {
+    it('should accept valid numeric OIDs', () => {
+      expect(validateNumericOid('2.5.6.6')).toBeNull()
+      expect(validateNumericOid('0.9.2342.19200300.100.1.1')).toBeNull()
+      expect(validateNumericOid('1.3.6.1.4.1.1466.115.121.1.15')).toBeNull()
+    })
+
+    it('should name the offending arc', () => {
+      expect(validateNumericOid('1..2')).toBe('arc 2 is empty')
+      expect(validateNumericOid('.1.2')).toBe('arc 1 is empty')
+      expect(validateNumericOid('1.2.')).toBe('trailing dot after arc 2')
+      expect(validateNumericOid('01.2')).toBe("arc 1 '01' has a leading zero")
+      expect(validateNumericOid('1.2a')).toBe("arc 2 '2a' is not a number")
+    })
+
+    it('should require at least two arcs', () => {
+      expect(validateNumericOid('1')).toBe('a numeric OID needs at least 2 arcs')
+      expect(validateNumericOid('13', 1)).toBeNull()
+    })
+  })
+
+  it('should report INVALID_OID with the offending arc on objectClasses', () => {
+    const error = parseError("( 2.05.6.6 NAME 'person' SUP top STRUCTURAL )")
+
+    expect(error.errorType).toBe(RFC4512ErrorType.INVALID_OID)
+    expect(error.message).toContain("Invalid OID format: 2.05.6.6 (arc 2 '05' has a leading zero)")
+  })
+
+  it('should validate ldapSyntax OIDs', () => {
+    const error = parseError("( 1.3.6.1.4.1.1466..115.121.1.15 DESC 'Directory String' )")
+
+    expect(error.errorType).toBe(RFC4512ErrorType.INVALID_OID)
+    expect(error.message).toContain('arc 8 is empty')
+  })
+
+  it('should validate the OID of every definition kind', () => {
+    expect(parseError("( 2.5.4.3. NAME 'cn' SUP name )").errorType).toBe(RFC4512ErrorType.INVALID_OID)
+    expect(parseError("( 2.5.13.02 NAME 'caseIgnoreMatch' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )", 'matchingRule').errorType).toBe(RFC4512ErrorType.INVALID_OID)
+    expect(parseError("( 2..5.13.2 APPLIES cn )").errorType).toBe(RFC4512ErrorType.INVALID_OID)
+    expect(parseError("( 1.2.03 OC device MUST cn )", 'nameForm').errorType).toBe(RFC4512ErrorType.INVALID_OID)
+  })
+
+  it('should validate SYNTAX OIDs', () => {
+    const error = parseError("( 2.5.4.3 NAME 'cn' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15. )")
+
+    expect(error.errorType).toBe(RFC4512ErrorType.INVALID_OID)
+    expect(error.message).toContain('Invalid SYNTAX OID format')
+    expect(error.message).toContain('trailing dot after arc 11')
+  })
+
+  it('should validate matching rule SYNTAX OIDs', () => {
+    const error = parseError("( 2.5.13.2 NAME 'caseIgnoreMatch' SYNTAX 1.3.06.1 )", 'matchingRule')
+
+    expect(error.errorType).toBe(RFC4512ErrorType.INVALID_OID)
+    expect(error.message).toContain("arc 3 '06' has a leading zero")
+  })
+
+  it('should report malformed numeric OIDs in reference positions as INVALID_OID with the offending arc', () => {
+    const cases: [string, Parameters<RFC4512Parser['parseSchema']>[1], string][] = [
+      ["( 2.5.6.6 NAME 'person' SUP 2.5..0 STRUCTURAL )", 'objectClass', 'Invalid SUP OID format: 2.5..0 (arc 3 is empty)'],
+      ["( 2.5.6.6 NAME 'person' SUP top STRUCTURAL MUST ( 2..5 ) )", 'objectClass', 'Invalid MUST OID format: 2..5 (arc 2 is empty)'],
+      ["( 2.5.6.6 NAME 'person' SUP top STRUCTURAL MAY 2.5.4.03 )", 'objectClass', "Invalid MAY OID format: 2.5.4.03 (arc 4 '03' has a leading zero)"],
+      ['( 2.5.13.2 APPLIES ( cn $ 2.5.4. ) )', 'matchingRuleUse', 'Invalid APPLIES OID format: 2.5.4. (trailing dot after arc 3)'],
+      ['( 2.5.6.6 AUX 1..2 )', 'ditContentRule', 'Invalid AUX OID format: 1..2 (arc 2 is empty)'],
+      ['( 2.5.6.6 NOT 2.05.4.35 )', 'ditContentRule', "Invalid NOT OID format: 2.05.4.35 (arc 2 '05' has a leading zero)"],
+      ['( 1 FORM 1.3..1 )', 'ditStructureRule', 'Invalid FORM OID format: 1.3..1 (arc 3 is empty)'],
+      ['( 1.2.3 OC 2.5.6. MUST ou )', 'nameForm', 'Invalid OC OID format: 2.5.6. (trailing dot after arc 3)'],
+      ['( 1.2.3 OC organizationalUnit MUST 2 )', 'nameForm', 'Invalid MUST OID format: 2 (a numeric OID needs at least 2 arcs)'],
+    ]
+
+    for (const [definition, type, message] of cases) {
+      const error = parseError(definition, type)
+
+      expect(error.errorType).toBe(RFC4512ErrorType.INVALID_OID)
+      expect(error.message).toContain(message)
+    }
+  })
+
+  it('should validate the numeric part of OpenLDAP configuration OIDs in relaxed mode', () => {
+    const relaxedParser = new RFC4512Parser({ relaxedMode: true })
+
+    expect(relaxedParser.parseSchema("( OLcfgGlAt:13 NAME 'olcBackend' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )").oid).toBe('OLcfgGlAt:13')
+    expect(() => relaxedParser.parseSchema("( OLcfgOvAt:18. NAME 'olcTest' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )")).toThrow(/trailing dot after arc 1/)
+  })
+})
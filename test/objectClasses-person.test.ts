@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'bun:test'
-import { RFC4512Parser } from '../src'
+import { LDAPObjectClassInterface, RFC4512Parser } from '../src'
 import { readFileSync } from 'node:fs'
 import { join } from 'node:path'
 
@@ -72,6 +72,16 @@ describe('RFC4512Parser - ObjectClasses LDIF', () => {
     expect(result.name).toBe('person')
   })
 
+  /**
+   * Test: NAME list extraction
+   * Verifies that a single NAME is also exposed as a one-entry names list
+   */
+  it('should expose the single NAME as a names list', () => {
+    const result = parser.parseSchema<LDAPObjectClassInterface>(ldifContent)
+
+    expect(result.names).toEqual(['person'])
+  })
+
   /**
    * Test: DESCRIPTION extraction
    * Verifies that the parser correctly extracts the description field
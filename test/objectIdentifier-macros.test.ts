@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import {
+  RFC4512Parser,
+  RFC4512ErrorType,
+  RFC4512ParserError,
+  serializeSchema,
+  type LDAPAttributeTypeInterface,
+  type LDAPMatchingRuleInterface,
+  type LDAPObjectClassInterface,
+} from '../src'
+
+/**
+ * Test suite for RFC4512Parser - OpenLDAP objectIdentifier macros
+ *
+ * This test suite validates loading macros from slapd.conf and cn=config text,
+ * expanding macro OIDs to numeric OIDs and keeping the macro form for round-tripping.
+ */
+describe('RFC4512Parser - objectIdentifier Macros', () => {
+  let parser: RFC4512Parser
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+  })
+
+  it('should load objectIdentifier and olcObjectIdentifier lines', () => {
+    const count = parser.loadObjectIdentifiers(
+      ['# custom schema', 'objectIdentifier MyRoot 1.3.6.1.4.1.9999', 'objectidentifier MyAttrs MyRoot:1', 'olcObjectIdentifier: {0}MyClasses MyRoot:2'].join('\n'),
+    )
+
+    expect(count).toBe(3)
+    expect(parser.objectIdentifiers).toEqual({
+      MyRoot: '1.3.6.1.4.1.9999',
+      MyAttrs: '1.3.6.1.4.1.9999.1',
+      MyClasses: '1.3.6.1.4.1.9999.2',
+    })
+  })
+
+  it('should accept macros in the parser options', () => {
+    const optionParser = new RFC4512Parser({ objectIdentifiers: { MyRoot: '1.3.6.1.4.1.9999', MyAttrs: 'MyRoot:1' } })
+
+    expect(optionParser.objectIdentifiers.MyAttrs).toBe('1.3.6.1.4.1.9999.1')
+  })
+
+  it('should expand macro OIDs and keep the macro form', () => {
+    parser.addObjectIdentifier('MyAttrs', '1.3.6.1.4.1.9999.1')
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>("( MyAttrs:3 NAME 'myAttr' SUP name )")
+
+    expect(result.oid).toBe('1.3.6.1.4.1.9999.1.3')
+    expect(result.oidMacro).toBe('MyAttrs:3')
+  })
+
+  it('should expand a macro used alone, case-insensitively', () => {
+    parser.addObjectIdentifier('MyPerson', '1.3.6.1.4.1.9999.2.1')
+    const result = parser.parseSchema<LDAPObjectClassInterface>("( myperson NAME 'myPerson' SUP top STRUCTURAL )")
+
+    expect(result.oid).toBe('1.3.6.1.4.1.9999.2.1')
+    expect(result.oidMacro).toBe('myperson')
+  })
+
+  it('should expand macro SYNTAX OIDs', () => {
+    parser.addObjectIdentifier('MySyntaxes', '1.3.6.1.4.1.9999.3')
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>("( 1.3.6.1.4.1.9999.1.4 NAME 'myCode' SYNTAX MySyntaxes:1{16} )")
+
+    expect(result.syntax).toEqual({ oid: '1.3.6.1.4.1.9999.3.1', length: 16, oidMacro: 'MySyntaxes:1' })
+  })
+
+  it('should leave numeric OIDs without oidMacro', () => {
+    parser.addObjectIdentifier('MyAttrs', '1.3.6.1.4.1.9999.1')
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>("( 2.5.4.3 NAME 'cn' SUP name )")
+
+    expect(result.oidMacro).toBeUndefined()
+  })
+
+  it('should report unknown macros as INVALID_OID', () => {
+    try {
+      parser.parseSchema("( Unknown:3 NAME 'myAttr' SUP name )")
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.INVALID_OID)
+      expect((error as RFC4512ParserError).message).toContain('Unknown objectIdentifier macro')
+    }
+  })
+
+  it('should load folded and base64 encoded olcObjectIdentifier values of LDIF text', () => {
+    const ldif = [
+      'dn: cn={5}custom,cn=schema,cn=config',
+      'olcObjectIdentifier: {0}MyRoot 1.3.6.1.4.',
+      ' 1.9999',
+      `olcObjectIdentifier:: ${Buffer.from('{1}MyAttrs MyRoot:1').toString('base64')}`,
+      '',
+    ].join('\n')
+
+    expect(parser.loadObjectIdentifiers(ldif)).toBe(2)
+    expect(parser.objectIdentifiers).toEqual({ MyRoot: '1.3.6.1.4.1.9999', MyAttrs: '1.3.6.1.4.1.9999.1' })
+  })
+
+  it('should expand macros in the references to other schema elements', () => {
+    parser.addObjectIdentifier('MyAttrs', '1.3.6.1.4.1.9999.1')
+    parser.addObjectIdentifier('MyClasses', '1.3.6.1.4.1.9999.2')
+
+    const attributeType = parser.parseSchema<LDAPAttributeTypeInterface>("( MyAttrs:3 NAME 'myAttr' SUP MyAttrs:1 EQUALITY caseIgnoreMatch )")
+    expect(attributeType.sup).toBe('1.3.6.1.4.1.9999.1.1')
+    expect(attributeType.equality).toBe('caseIgnoreMatch')
+
+    const objectClass = parser.parseSchema<LDAPObjectClassInterface>("( MyClasses:1 NAME 'myClass' SUP MyClasses:0 STRUCTURAL MUST ( cn $ MyAttrs:3 ) )")
+    expect(objectClass.sup).toEqual(['1.3.6.1.4.1.9999.2.0'])
+    expect(objectClass.must).toEqual(['cn', '1.3.6.1.4.1.9999.1.3'])
+    expect(objectClass.may).toBeNull()
+    expect(objectClass.referenceMacros).toEqual({ sup: ['MyClasses:0'], must: [null, 'MyAttrs:3'] })
+  })
+
+  it('should write references and matching rule syntaxes back in their macro form', () => {
+    parser.addObjectIdentifier('MyAttrs', '1.3.6.1.4.1.9999.1')
+    parser.addObjectIdentifier('MySyntaxes', '1.3.6.1.4.1.9999.3')
+
+    const attributeType = parser.parseSchema<LDAPAttributeTypeInterface>("( MyAttrs:3 NAME 'myAttr' SUP MyAttrs:1 )")
+    expect(attributeType.referenceMacros).toEqual({ sup: 'MyAttrs:1' })
+    expect(serializeSchema(attributeType)).toBe("( MyAttrs:3 NAME 'myAttr' SUP MyAttrs:1 )")
+
+    const matchingRule = parser.parseSchema<LDAPMatchingRuleInterface>("( MyAttrs:9 NAME 'myMatch' SYNTAX MySyntaxes:1 )", 'matchingRule')
+    expect(matchingRule.syntax).toBe('1.3.6.1.4.1.9999.3.1')
+    expect(matchingRule.syntaxMacro).toBe('MySyntaxes:1')
+    expect(serializeSchema(matchingRule)).toBe("( MyAttrs:9 NAME 'myMatch' SYNTAX MySyntaxes:1 )")
+  })
+
+  it('should report references using unknown macros as INVALID_OID', () => {
+    try {
+      parser.parseSchema("( 1.3.6.1.4.1.9999.1.3 NAME 'myAttr' SUP Unknown:1 )")
+      expect.unreachable()
+    } catch (error) {
+      expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.INVALID_OID)
+      expect((error as RFC4512ParserError).message).toBe(
+        'Unknown objectIdentifier macro in reference Unknown:1. Define it with addObjectIdentifier or loadObjectIdentifiers',
+      )
+    }
+  })
+
+  it('should reject macros using undefined macros or invalid OIDs', () => {
+    expect(() => parser.addObjectIdentifier('MyAttrs', 'MyRoot:1')).toThrow(/Unknown objectIdentifier macro/)
+    expect(() => parser.addObjectIdentifier('MyAttrs', '1.3.06')).toThrow(/Invalid OID format/)
+  })
+})
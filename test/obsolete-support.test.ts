@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import {
+  RFC4512Parser,
+  type LDAPAttributeTypeInterface,
+  type LDAPMatchingRuleInterface,
+  type LDAPObjectClassInterface,
+  type LDAPSyntaxInterface,
+} from '../src'
+
+/**
+ * Test suite for RFC4512Parser - OBSOLETE flag support
+ *
+ * RFC 4512 allows OBSOLETE on every kind of schema element. This test suite
+ * validates that the flag is parsed into the obsolete field and defaults to false.
+ */
+describe('RFC4512Parser - OBSOLETE Support', () => {
+  let parser: RFC4512Parser
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+  })
+
+  it('should parse OBSOLETE on attributeTypes', () => {
+    const result = parser.parseSchema<LDAPAttributeTypeInterface>(
+      "( 2.5.4.3 NAME 'cn' DESC 'Common Name' OBSOLETE SUP name EQUALITY caseIgnoreMatch )",
+    )
+
+    expect(result.obsolete).toBe(true)
+    expect(result.sup).toBe('name')
+    expect(result.equality).toBe('caseIgnoreMatch')
+  })
+
+  it('should parse OBSOLETE on objectClasses in any position', () => {
+    const result = parser.parseSchema<LDAPObjectClassInterface>("( 2.5.6.6 NAME 'person' SUP top STRUCTURAL OBSOLETE MUST ( sn $ cn ) )")
+
+    expect(result.obsolete).toBe(true)
+    expect(result.must).toEqual(['sn', 'cn'])
+  })
+
+  it('should parse OBSOLETE on ldapSyntaxes', () => {
+    const result = parser.parseSchema<LDAPSyntaxInterface>("( 1.3.6.1.4.1.1466.115.121.1.1 DESC 'ACI Item' OBSOLETE )")
+
+    expect(result.type).toBe('ldapSyntax')
+    expect(result.obsolete).toBe(true)
+  })
+
+  it('should parse OBSOLETE on matchingRules', () => {
+    const result = parser.parseSchema<LDAPMatchingRuleInterface>(
+      "( 2.5.13.2 NAME 'caseIgnoreMatch' OBSOLETE SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )",
+      'matchingRule',
+    )
+
+    expect(result.obsolete).toBe(true)
+  })
+
+  it('should default to false when OBSOLETE is absent', () => {
+    const attributeType = parser.parseSchema<LDAPAttributeTypeInterface>("( 2.5.4.3 NAME 'cn' SUP name )")
+    const objectClass = parser.parseSchema<LDAPObjectClassInterface>("( 2.5.6.6 NAME 'person' SUP top STRUCTURAL )")
+
+    expect(attributeType.obsolete).toBe(false)
+    expect(objectClass.obsolete).toBe(false)
+  })
+
+  it('should reject OBSOLETE as a SUP value', () => {
+    expect(() => parser.parseSchema("( 2.5.4.3 NAME 'cn' SUP OBSOLETE )")).toThrow(/Invalid SUP value/)
+  })
+})
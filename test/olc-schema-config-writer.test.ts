@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'bun:test'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { LDIFReader, LDIFWriter, OlcSchemaConfigReader, OlcSchemaConfigWriter, RFC4512ErrorType, RFC4512Parser, RFC4512ParserError } from '../src'
+
+/**
+ * Test suite for writing OpenLDAP olcSchemaConfig entries
+ *
+ * This test suite validates LDIF writing (line folding, base64 values) and the olcSchemaConfig entries
+ * written from parsed definitions: dn, index prefixes, renumbering and reading them back.
+ */
+describe('LDIFWriter', () => {
+  it('should fold long lines on continuation lines starting with a space', () => {
+    const value = 'x'.repeat(200)
+    const ldif = LDIFWriter.write([{ dn: 'cn=test', attributes: [{ name: 'description', value }] }])
+
+    expect(ldif.split('\n').every(line => line.length <= 76)).toBe(true)
+    expect(ldif.split('\n').slice(2, -1).every(line => line.startsWith(' '))).toBe(true)
+    expect(LDIFReader.read(ldif)[0].attributes[0].value).toBe(value)
+  })
+
+  it('should encode values that are not safe strings in base64', () => {
+    const ldif = LDIFWriter.write([{ dn: 'cn=Ève', attributes: [{ name: 'description', value: ' leading space' }, { name: 'cn', value: 'plain' }] }])
+
+    expect(ldif).toBe(`dn:: ${Buffer.from('cn=Ève').toString('base64')}\ndescription:: ${Buffer.from(' leading space').toString('base64')}\ncn: plain\n`)
+    expect(LDIFReader.read(ldif)[0].attributes[0].value).toBe(' leading space')
+  })
+})
+
+describe('OlcSchemaConfigWriter', () => {
+  const parser = new RFC4512Parser()
+  const badgeNumber = parser.parseSchema("( 1.3.6.1.4.1.99999.1.1 NAME 'myBadgeNumber' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )")
+  const employee = parser.parseSchema("( 1.3.6.1.4.1.99999.2.1 NAME 'myEmployee' SUP top AUXILIARY MAY myBadgeNumber )")
+
+  it('should write the dn, object class and indexed definition values', () => {
+    const ldif = new OlcSchemaConfigWriter().write({ name: 'custom', index: 4, definitions: [employee, badgeNumber] })
+
+    expect(ldif).toBe(
+      [
+        'dn: cn={4}custom,cn=schema,cn=config',
+        'objectClass: olcSchemaConfig',
+        'cn: {4}custom',
+        "olcAttributeTypes: {0}( 1.3.6.1.4.1.99999.1.1 NAME 'myBadgeNumber' SYNTAX 1.",
+        ' 3.6.1.4.1.1466.115.121.1.15 )',
+        "olcObjectClasses: {0}( 1.3.6.1.4.1.99999.2.1 NAME 'myEmployee' SUP top AUXIL",
+        ' IARY MAY myBadgeNumber )',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('should write the cn without index when the schema has none', () => {
+    const ldif = new OlcSchemaConfigWriter().write({ name: 'custom', definitions: [badgeNumber] })
+
+    expect(LDIFReader.read(ldif)[0].dn).toBe('cn=custom,cn=schema,cn=config')
+  })
+
+  it('should read back the entries it writes', () => {
+    const sample = readFileSync(join(__dirname, 'samples/olcSchemaConfig/custom.ldif'), 'utf-8')
+    const [entry] = new OlcSchemaConfigReader().read(sample)
+
+    const ldif = new OlcSchemaConfigWriter().write({ name: 'custom', index: 4, objectIdentifiers: entry.objectIdentifiers, definitions: entry.definitions })
+    const [written] = new OlcSchemaConfigReader().read(ldif)
+
+    expect(written.dn).toBe(entry.dn)
+    expect(written.errors).toEqual([])
+    expect(written.objectIdentifiers).toEqual(entry.objectIdentifiers)
+    expect(written.definitions.map(definition => definition.schema)).toEqual(entry.definitions.map(definition => definition.schema))
+  })
+
+  it('should keep the indexes of the definitions read when not renumbering', () => {
+    const ldif = [
+      'dn: cn={2}custom,cn=schema,cn=config',
+      'objectClass: olcSchemaConfig',
+      "olcAttributeTypes: {3}( 1.3.6.1.4.1.99999.1.3 NAME 'third' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )",
+      "olcAttributeTypes: {5}( 1.3.6.1.4.1.99999.1.5 NAME 'fifth' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )",
+    ].join('\n')
+    const [entry] = new OlcSchemaConfigReader().read(ldif)
+    const schema = { name: 'custom', index: 2, definitions: [...entry.definitions, badgeNumber] }
+
+    const indexes = (text: string) => LDIFReader.read(text)[0].attributes.filter(attribute => attribute.name === 'olcAttributeTypes').map(attribute => attribute.value.slice(0, 3))
+
+    expect(indexes(new OlcSchemaConfigWriter({ renumber: false }).write(schema))).toEqual(['{3}', '{5}', '{6}'])
+    expect(indexes(new OlcSchemaConfigWriter().write(schema))).toEqual(['{0}', '{1}', '{2}'])
+  })
+
+  it('should write several schemas as consecutive entries', () => {
+    const ldif = new OlcSchemaConfigWriter({ lineWidth: 200 }).write([
+      { name: 'first', index: 0, definitions: [badgeNumber] },
+      { name: 'second', index: 1, definitions: [employee] },
+    ])
+
+    expect(LDIFReader.read(ldif).map(entry => entry.dn)).toEqual(['cn={0}first,cn=schema,cn=config', 'cn={1}second,cn=schema,cn=config'])
+  })
+
+  it('should reject definition types without olcSchemaConfig attribute', () => {
+    const matchingRule = parser.parseSchema("( 2.5.13.2 NAME 'caseIgnoreMatch' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )", 'matchingRule')
+
+    try {
+      new OlcSchemaConfigWriter().write({ name: 'custom', definitions: [matchingRule] })
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.VALIDATION_ERROR)
+    }
+  })
+})
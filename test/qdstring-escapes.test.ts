@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { RFC4512Parser, RFC4512ErrorType, RFC4512ParserError, escapeQdstring, type LDAPObjectClassInterface } from '../src'
+
+/**
+ * Test suite for RFC4512Parser - qdstring escapes
+ *
+ * RFC 4512 Section 4.1 escapes a quote as \27 and a backslash as \5C inside quoted strings.
+ * This test suite validates decoding, rejection of malformed escapes and re-encoding.
+ */
+describe('RFC4512Parser - Quoted String Escapes', () => {
+  let parser: RFC4512Parser
+
+  beforeEach(() => {
+    parser = new RFC4512Parser()
+  })
+
+  it('should decode \\27 and \\5C in DESC', () => {
+    const result = parser.parseSchema<LDAPObjectClassInterface>("( 2.5.6.6 NAME 'person' DESC 'O\\27Reilly \\5C share' SUP top STRUCTURAL )")
+
+    expect(result.desc).toBe("O'Reilly \\ share")
+  })
+
+  it('should decode escapes case-insensitively', () => {
+    const result = parser.parseSchema<LDAPObjectClassInterface>("( 2.5.6.6 NAME 'person' DESC 'C:\\5cdir' SUP top STRUCTURAL )")
+
+    expect(result.desc).toBe('C:\\dir')
+  })
+
+  it('should decode escapes in extensions', () => {
+    const result = parser.parseSchema<LDAPObjectClassInterface>("( 2.5.6.6 NAME 'person' SUP top STRUCTURAL X-ORIGIN 'user\\27s schema' )")
+
+    expect(result.extensions?.['X-ORIGIN']).toBe("user's schema")
+  })
+
+  it('should reject malformed escapes at the position of the backslash', () => {
+    const definition = "( 2.5.6.6 NAME 'person' DESC 'bad \\n escape' SUP top STRUCTURAL )"
+
+    try {
+      parser.parseSchema(definition)
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      const parserError = error as RFC4512ParserError
+      expect(parserError.errorType).toBe(RFC4512ErrorType.SYNTAX_ERROR)
+      expect(parserError.message).toBe('Invalid escape sequence \\n in quoted string')
+      expect(parserError.position?.offset).toBe(definition.indexOf('\\'))
+    }
+  })
+
+  it('should reject a trailing backslash', () => {
+    expect(() => parser.parseSchema("( 2.5.6.6 NAME 'person' DESC 'bad \\' SUP top STRUCTURAL )")).toThrow(/Invalid escape sequence/)
+  })
+
+  it('should re-encode values with escapeQdstring', () => {
+    expect(escapeQdstring("O'Reilly \\ share")).toBe('O\\27Reilly \\5C share')
+    expect(escapeQdstring('plain')).toBe('plain')
+  })
+
+  it('should round-trip escaped values', () => {
+    const desc = "it's a \\ path"
+    const result = parser.parseSchema<LDAPObjectClassInterface>(`( 2.5.6.6 NAME 'person' DESC '${escapeQdstring(desc)}' SUP top STRUCTURAL )`)
+
+    expect(result.desc).toBe(desc)
+  })
+})
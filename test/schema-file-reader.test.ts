@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'bun:test'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  SchemaFileReader,
+  RFC4512ErrorType,
+  type LDAPAttributeTypeInterface,
+  type LDAPObjectClassInterface,
+} from '../src'
+
+/**
+ * Test suite for SchemaFileReader
+ *
+ * This test suite validates reading slapd.conf-style .schema files: directive keywords,
+ * comments, multi-line definitions, objectIdentifier macros and error positions in the source file.
+ */
+describe('SchemaFileReader', () => {
+  const sample = readFileSync(join(__dirname, 'samples/schema/custom.schema'), 'utf-8')
+
+  it('should read every definition with its line number', () => {
+    const { definitions, errors } = new SchemaFileReader().read(sample)
+
+    expect(errors).toEqual([])
+    expect(definitions.map(definition => [definition.keyword, definition.line, definition.schema.name])).toEqual([
+      ['attributetype', 10, 'myBadgeNumber'],
+      ['attributetype', 17, 'myNickname'],
+      ['objectclass', 24, 'myEmployee'],
+    ])
+  })
+
+  it('should expand the objectIdentifier macros of the file', () => {
+    const { objectIdentifiers, definitions } = new SchemaFileReader().read(sample)
+
+    expect(objectIdentifiers).toEqual({
+      MyRoot: '1.3.6.1.4.1.99999',
+      MyAttrs: '1.3.6.1.4.1.99999.1',
+      MyClasses: '1.3.6.1.4.1.99999.2',
+    })
+
+    const badgeNumber = definitions[0].schema as LDAPAttributeTypeInterface
+    expect(badgeNumber.oid).toBe('1.3.6.1.4.1.99999.1.1')
+    expect(badgeNumber.oidMacro).toBe('MyAttrs:1')
+    expect(badgeNumber.syntax).toEqual({ oid: '1.3.6.1.4.1.1466.115.121.1.15', length: 32 })
+    expect(badgeNumber.singleValue).toBe(true)
+
+    const employee = definitions[2].schema as LDAPObjectClassInterface
+    expect(employee.oid).toBe('1.3.6.1.4.1.99999.2.1')
+    expect(employee.may).toEqual(['myNickname'])
+  })
+
+  it('should skip comment lines inside a definition', () => {
+    const { definitions } = new SchemaFileReader().read(sample)
+
+    expect(definitions[1].schema.desc).toBe("Nickname, e.g. O'Brien")
+  })
+
+  it('should accept keywords in any case and CRLF line endings', () => {
+    const source = ['AttributeTypes ( 1.2.3.4 NAME \'first\'', '  SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )', 'ObjectClass ( 1.2.3.5 NAME \'second\' SUP top AUXILIARY )', ''].join('\r\n')
+    const { definitions, errors } = new SchemaFileReader().read(source)
+
+    expect(errors).toEqual([])
+    expect(definitions.map(definition => definition.schema.type)).toEqual(['attributeType', 'objectClass'])
+  })
+
+  it('should report syntax errors at their position in the source file', () => {
+    const source = [
+      '# broken schema',
+      "attributetype ( 1.2.3.4 NAME 'first'",
+      '\tEQUALITY caseIgnoreMatch',
+      '\tSYNTAX 1.3.6.1.4.1.1466.115.121.1.15 FOO )',
+      '',
+      "objectclass ( 1.2.3.5 NAME 'second' SUP top AUXILIARY MAY first )",
+    ].join('\n')
+
+    const { definitions, errors } = new SchemaFileReader().read(source)
+
+    expect(definitions.map(definition => definition.schema.name)).toEqual(['second'])
+    expect(errors).toHaveLength(1)
+    expect(errors[0].keyword).toBe('attributetype')
+    expect(errors[0].line).toBe(2)
+    expect(errors[0].error.errorType).toBe(RFC4512ErrorType.SYNTAX_ERROR)
+    expect(errors[0].error.position).toEqual({ line: 4, column: 39, offset: source.indexOf('FOO') })
+  })
+
+  it('should position errors without a location at the start of the definition', () => {
+    const source = "\nattributetype ( Unknown:1 NAME 'first' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )\n"
+    const { errors } = new SchemaFileReader().read(source)
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0].error.errorType).toBe(RFC4512ErrorType.INVALID_OID)
+    expect(errors[0].error.position).toEqual({ line: 2, column: 15, offset: 15 })
+  })
+
+  it('should report unsupported directives and go on', () => {
+    const source = ['include /etc/openldap/schema/core.schema', "objectclass ( 1.2.3.5 NAME 'second' SUP top AUXILIARY )"].join('\n')
+    const { definitions, errors } = new SchemaFileReader().read(source)
+
+    expect(definitions).toHaveLength(1)
+    expect(errors).toHaveLength(1)
+    expect(errors[0].error.message).toContain('Unsupported schema directive: include')
+    expect(errors[0].error.position).toEqual({ line: 1, column: 1, offset: 0 })
+  })
+
+  it('should stream the directives of a file as read would', async () => {
+    const { objectIdentifiers, definitions } = new SchemaFileReader().read(sample)
+    const values = []
+    // Chunks end in the middle of lines and directives
+    for await (const value of new SchemaFileReader().readStream(sample.match(/[^]{1,7}/g) ?? [])) {
+      values.push(value)
+    }
+
+    expect(Object.fromEntries(values.flatMap(({ objectIdentifier }) => objectIdentifier ? [[objectIdentifier.name, objectIdentifier.oid]] : []))).toEqual(objectIdentifiers)
+    expect(values.filter(({ schema }) => schema).map(({ keyword, line, value, schema }) => ({ keyword, line, value, schema }))).toEqual(definitions)
+    expect(values.filter(({ error }) => error)).toEqual([])
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'bun:test'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { RFC4512ErrorType, RFC4512Parser, RFC4512ParserError, SchemaFileReader, SchemaFileWriter } from '../src'
+
+/**
+ * Test suite for writing slapd.conf .schema files
+ *
+ * This test suite validates the layout of the written files (header, sections, indented clauses),
+ * the objectIdentifier macros, and reading the written files back with SchemaFileReader.
+ */
+describe('SchemaFileWriter', () => {
+  const parser = new RFC4512Parser()
+  const badgeNumber = parser.parseSchema("( 1.3.6.1.4.1.99999.1.1 NAME 'myBadgeNumber' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15{32} SINGLE-VALUE )")
+  const employee = parser.parseSchema("( 1.3.6.1.4.1.99999.2.1 NAME 'myEmployee' SUP top AUXILIARY MAY myBadgeNumber )")
+
+  it('should write a header and a section per definition type, attribute types first', () => {
+    const text = new SchemaFileWriter({ header: 'custom.schema\n\nEmployee badges' }).write([employee, badgeNumber])
+
+    expect(text).toBe(
+      [
+        '# custom.schema',
+        '#',
+        '# Employee badges',
+        '',
+        '# Attribute types',
+        '',
+        'attributetype ( 1.3.6.1.4.1.99999.1.1',
+        "\tNAME 'myBadgeNumber'",
+        '\tSYNTAX 1.3.6.1.4.1.1466.115.121.1.15{32}',
+        '\tSINGLE-VALUE )',
+        '',
+        '# Object classes',
+        '',
+        'objectclass ( 1.3.6.1.4.1.99999.2.1',
+        "\tNAME 'myEmployee'",
+        '\tSUP top',
+        '\tAUXILIARY',
+        '\tMAY myBadgeNumber )',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('should declare the configured macros and write OIDs in their closest macro form', () => {
+    const text = new SchemaFileWriter({
+      objectIdentifiers: { MyRoot: '1.3.6.1.4.1.99999', MyAttrs: '1.3.6.1.4.1.99999.1', MyClasses: 'MyRoot:2' },
+      indent: '    ',
+    }).write([badgeNumber, employee])
+
+    expect(text).toContain('objectidentifier MyRoot 1.3.6.1.4.1.99999\nobjectidentifier MyAttrs MyRoot:1\nobjectidentifier MyClasses MyRoot:2\n')
+    expect(text).toContain("attributetype ( MyAttrs:1\n    NAME 'myBadgeNumber'")
+    expect(text).toContain("objectclass ( MyClasses:1\n    NAME 'myEmployee'")
+  })
+
+  it('should write references in their closest macro form', () => {
+    const badged = parser.parseSchema("( 1.3.6.1.4.1.99999.2.2 NAME 'badged' SUP top AUXILIARY MAY ( 1.3.6.1.4.1.99999.1.1 $ description ) )")
+    const text = new SchemaFileWriter({ objectIdentifiers: { MyAttrs: '1.3.6.1.4.1.99999.1' } }).write([badged])
+
+    expect(text).toContain('\tMAY ( MyAttrs:1 $ description ) )')
+    expect(new SchemaFileReader().read(text).definitions[0].schema).toMatchObject({ may: ['1.3.6.1.4.1.99999.1.1', 'description'] })
+  })
+
+  it('should write numeric OIDs when no macro is configured', () => {
+    const macroParser = new RFC4512Parser({ objectIdentifiers: { MyAttrs: '1.3.6.1.4.1.99999.1' } })
+    const schema = macroParser.parseSchema("( MyAttrs:1 NAME 'myBadgeNumber' SUP MyAttrs:2 SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )")
+
+    expect(new SchemaFileWriter().write([schema])).toContain('attributetype ( 1.3.6.1.4.1.99999.1.1\n')
+    expect(new SchemaFileWriter().write([schema])).toContain('\tSUP 1.3.6.1.4.1.99999.1.2\n')
+  })
+
+  it('should write files that read back to the same definitions', () => {
+    const file = new SchemaFileReader().read(readFileSync(join(__dirname, 'samples/schema/custom.schema'), 'utf-8'))
+
+    const text = new SchemaFileWriter({ objectIdentifiers: file.objectIdentifiers }).write(file.definitions.map(definition => definition.schema))
+    const written = new SchemaFileReader().read(text)
+
+    expect(written.errors).toEqual([])
+    expect(written.objectIdentifiers).toEqual(file.objectIdentifiers)
+    expect(written.definitions.map(definition => definition.schema)).toEqual(file.definitions.map(definition => definition.schema))
+  })
+
+  it('should reject unknown macros and definition types without directive', () => {
+    expect(() => new SchemaFileWriter({ objectIdentifiers: { MyAttrs: 'MyRoot:1' } }).write([])).toThrow('Unknown objectIdentifier macro in MyRoot:1')
+
+    const matchingRule = parser.parseSchema("( 2.5.13.2 NAME 'caseIgnoreMatch' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )", 'matchingRule')
+    try {
+      new SchemaFileWriter().write([matchingRule])
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(RFC4512ParserError)
+      expect((error as RFC4512ParserError).errorType).toBe(RFC4512ErrorType.VALIDATION_ERROR)
+    }
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'bun:test'
+import { RFC4512Parser, RFC4512ErrorType, splitSchemaDefinitions, getTextPosition } from '../src'
+
+/**
+ * Test suite for parsing texts holding several schema definitions
+ *
+ * This test suite validates splitting a text on balanced parentheses (respecting quoted strings),
+ * parsing every definition with its offset range, and reporting error positions relative to the whole text.
+ */
+describe('splitSchemaDefinitions', () => {
+  it('should split definitions separated by whitespace and newlines', () => {
+    const text = "( 2.5.4.41 NAME 'name' )  ( 2.5.4.3 NAME 'cn' SUP name )\n\n\t( 2.5.4.4 NAME 'sn' SUP name )\n"
+
+    expect(splitSchemaDefinitions(text)).toEqual([
+      { start: 0, end: 24, value: "( 2.5.4.41 NAME 'name' )" },
+      { start: 26, end: 56, value: "( 2.5.4.3 NAME 'cn' SUP name )" },
+      { start: 59, end: 89, value: "( 2.5.4.4 NAME 'sn' SUP name )" },
+    ])
+  })
+
+  it('should ignore parentheses inside quoted strings and count nested lists', () => {
+    const text = "( 2.5.6.6 NAME 'person' DESC 'a :) person (really' MUST ( sn $ cn ) )( 2.5.6.0 NAME 'top' )"
+
+    expect(splitSchemaDefinitions(text).map(range => range.value)).toEqual([
+      "( 2.5.6.6 NAME 'person' DESC 'a :) person (really' MUST ( sn $ cn ) )",
+      "( 2.5.6.0 NAME 'top' )",
+    ])
+  })
+
+  it('should keep OpenLDAP index prefixes with their definition', () => {
+    expect(splitSchemaDefinitions("{0}( 2.5.4.41 NAME 'name' ) {1} ( 2.5.4.3 NAME 'cn' )").map(range => range.value)).toEqual([
+      "{0}( 2.5.4.41 NAME 'name' )",
+      "{1} ( 2.5.4.3 NAME 'cn' )",
+    ])
+  })
+
+  it('should return text between definitions and unclosed definitions as ranges', () => {
+    expect(splitSchemaDefinitions("stray words\n( 2.5.4.41 NAME 'name' )\n( 2.5.4.3 NAME 'cn'  \n")).toEqual([
+      { start: 0, end: 11, value: 'stray words' },
+      { start: 12, end: 36, value: "( 2.5.4.41 NAME 'name' )" },
+      { start: 37, end: 56, value: "( 2.5.4.3 NAME 'cn'" },
+    ])
+  })
+
+  it('should return no range for blank text', () => {
+    expect(splitSchemaDefinitions(' \n\t ')).toEqual([])
+  })
+})
+
+describe('RFC4512Parser - parseSchemaText', () => {
+  const parser = new RFC4512Parser()
+
+  it('should parse every definition with its offset range', () => {
+    const text = "( 2.5.4.41 NAME 'name' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )\n( 2.5.6.6 NAME 'person' SUP top STRUCTURAL MUST ( sn $ cn ) )"
+    const { definitions, errors } = parser.parseSchemaText(text)
+
+    expect(errors).toEqual([])
+    expect(definitions.map(({ start, end, schema }) => [start, end, schema.type, schema.name])).toEqual([
+      [0, 61, 'attributeType', 'name'],
+      [62, text.length, 'objectClass', 'person'],
+    ])
+    expect(text.slice(definitions[1].start, definitions[1].end)).toBe(definitions[1].value)
+  })
+
+  it('should report errors at their position in the whole text and go on', () => {
+    const text = "( 2.5.4.41 NAME 'name' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )\n( 2.5.4.4 NAME 'sn'\n  SUP name FOO )\n( 2.5.4.3 NAME 'cn' SUP name )"
+    const { definitions, errors } = parser.parseSchemaText(text)
+
+    expect(definitions.map(definition => definition.schema.name)).toEqual(['name', 'cn'])
+    expect(errors).toHaveLength(1)
+    expect(errors[0].start).toBe(text.indexOf("( 2.5.4.4 "))
+    expect(errors[0].error.errorType).toBe(RFC4512ErrorType.SYNTAX_ERROR)
+    expect(errors[0].error.position).toEqual({ line: 3, column: 12, offset: text.indexOf('FOO') })
+  })
+
+  it('should account for OpenLDAP index prefixes in error positions', () => {
+    const text = "{0}( 2.5.4.41 NAME 'name' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )\n{1}( 2.5.4.3 NAME 'cn' BAD )"
+    const { errors } = parser.parseSchemaText(text)
+
+    expect(errors[0].error.position).toEqual({ line: 2, column: 24, offset: text.indexOf('BAD') })
+  })
+
+  it('should report text between definitions', () => {
+    const { definitions, errors } = parser.parseSchemaText("( 2.5.4.41 NAME 'name' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )\nnot a definition\n")
+
+    expect(definitions).toHaveLength(1)
+    expect(errors.map(({ value, error }) => [value, error.position?.line, error.position?.column])).toEqual([['not a definition', 2, 1]])
+  })
+
+  it('should position errors without a location at the start of their definition', () => {
+    const text = "( 2.5.4.41 NAME 'name' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )\n  ( 2.5.4.99 NAME 'nothing' )"
+    const { errors } = parser.parseSchemaText(text)
+
+    // The SUP or SYNTAX requirement is checked after the grammar, without a location
+    expect(errors.map(({ error }) => error.position)).toEqual([{ line: 2, column: 3, offset: text.indexOf("( 2.5.4.99") }])
+  })
+})
+
+describe('RFC4512Parser.parseSchemaStream', () => {
+  const parser = new RFC4512Parser()
+  const text = "( 2.5.4.41 NAME 'name' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )\n( 2.5.4.4 NAME 'sn'\n  SUP name FOO )\n{1}( 2.5.4.3 NAME 'cn' SUP name )"
+
+  const collect = async (source: Iterable<string | Uint8Array>) => {
+    const values = []
+    for await (const value of parser.parseSchemaStream(source)) {
+      values.push(value)
+    }
+    return values
+  }
+
+  it('should yield the definitions and errors of parseSchemaText, whatever the chunks', async () => {
+    const { definitions, errors } = parser.parseSchemaText(text)
+    const expected = [...definitions, ...errors].sort((a, b) => a.start - b.start).map(({ start, end, value }) => ({ start, end, value }))
+
+    for (const chunks of [[text], text.split(''), text.split('\n').map((line, index, lines) => index < lines.length - 1 ? `${line}\n` : line)]) {
+      const values = await collect(chunks)
+
+      expect(values.map(({ start, end, value }) => ({ start, end, value }))).toEqual(expected)
+      expect(values.map(({ line }) => line)).toEqual([1, 2, 4])
+      expect(values.map(({ schema }) => schema?.name)).toEqual(['name', undefined, 'cn'])
+      expect(values[1].error?.position).toEqual(errors[0].error.position)
+    }
+  })
+
+  it('should decode multi-byte characters split between chunks', async () => {
+    const bytes = new TextEncoder().encode("( 2.5.4.41 NAME 'name' DESC 'Nom évalué' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )")
+    const split = Buffer.from(bytes).indexOf(0xc3) + 1
+    const values = await collect([bytes.slice(0, split), bytes.slice(split)])
+
+    expect(values.map(({ schema }) => schema?.desc)).toEqual(['Nom évalué'])
+  })
+})
+
+describe('getTextPosition', () => {
+  it('should return 1-based lines and columns', () => {
+    expect(getTextPosition('first\nsecond', 0)).toEqual({ line: 1, column: 1, offset: 0 })
+    expect(getTextPosition('first\nsecond', 5)).toEqual({ line: 1, column: 6, offset: 5 })
+    expect(getTextPosition('first\nsecond', 8)).toEqual({ line: 2, column: 3, offset: 8 })
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'bun:test'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  ActiveDirectorySchemaReader,
+  ApacheDSSchemaReader,
+  OlcSchemaConfigReader,
+  RFC4512Parser,
+  SchemaFileReader,
+  SubschemaReader,
+  serializeSchema,
+  type LDAPAttributeTypeInterface,
+  type LDAPDITStructureRuleInterface,
+  type LDAPObjectClassInterface,
+  type LDAPSchemaType,
+} from '../src'
+
+const samples = join(__dirname, 'samples')
+
+/**
+ * Sample directories holding one definition per file, with the type to parse them as when it cannot be guessed
+ */
+const DEFINITION_SAMPLES: Record<string, LDAPSchemaType['type'] | undefined> = {
+  matchingRules: 'matchingRule',
+  matchingRuleUse: 'matchingRuleUse',
+  olcAttributeTypes: undefined,
+  olcDitContentRules: undefined,
+  olcLdapSyntaxes: undefined,
+  olcObjectClasses: undefined,
+}
+
+/**
+ * Check that a definition parses back to itself once serialized
+ */
+function expectRoundTrip(parser: RFC4512Parser, schema: LDAPSchemaType): void {
+  expect(parser.parseSchema(serializeSchema(schema), schema.type)).toEqual(schema)
+}
+
+/**
+ * Test suite for serializing definitions back to RFC 4512 text
+ *
+ * This test suite validates the clause order, quoting and list formats of the serialized text,
+ * and that every definition of the samples parses back to the same result once serialized.
+ */
+describe('serializeSchema', () => {
+  const parser = new RFC4512Parser()
+
+  it('should write the clauses of an attribute type in RFC 4512 order', () => {
+    const attributeType: LDAPAttributeTypeInterface = {
+      type: 'attributeType',
+      oid: '1.2.3.4',
+      name: 'badge',
+      names: ['badge', 'badgeNumber'],
+      obsolete: false,
+      usage: 'userApplications',
+      singleValue: true,
+      syntax: { oid: '1.3.6.1.4.1.1466.115.121.1.15', length: 32 },
+      equality: 'caseIgnoreMatch',
+      desc: 'Badge number',
+      extensions: { 'X-ORIGIN': 'custom' },
+    }
+
+    expect(serializeSchema(attributeType)).toBe(
+      "( 1.2.3.4 NAME ( 'badge' 'badgeNumber' ) DESC 'Badge number' EQUALITY caseIgnoreMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.15{32} SINGLE-VALUE USAGE userApplications X-ORIGIN 'custom' )"
+    )
+  })
+
+  it('should write lists separated by dollars and single values without parentheses', () => {
+    const objectClass: LDAPObjectClassInterface = {
+      type: 'objectClass',
+      oid: '2.5.6.6',
+      name: 'person',
+      names: ['person'],
+      obsolete: false,
+      sup: ['top'],
+      objectClassType: 'STRUCTURAL',
+      must: ['sn', 'cn'],
+      may: ['description'],
+    }
+
+    expect(serializeSchema(objectClass)).toBe("( 2.5.6.6 NAME 'person' SUP top STRUCTURAL MUST ( sn $ cn ) MAY description )")
+  })
+
+  it('should escape quoted strings and keep multi-valued extensions', () => {
+    const text = serializeSchema({ type: 'ldapSyntax', oid: '1.2.3', desc: "O'Brien \\ co", obsolete: false, extensions: { 'X-ORIGIN': ['RFC 4517', 'custom'] } })
+
+    expect(text).toBe("( 1.2.3 DESC 'O\\27Brien \\5C co' X-ORIGIN ( 'RFC 4517' 'custom' ) )")
+    expect(parser.parseSchema(text).desc).toBe("O'Brien \\ co")
+  })
+
+  it('should write the OBSOLETE flag of syntax descriptions', () => {
+    const syntax = parser.parseSchema("( 1.3.6.1.4.1.1466.115.121.1.15 DESC 'x' OBSOLETE )")
+
+    expect(serializeSchema(syntax)).toBe("( 1.3.6.1.4.1.1466.115.121.1.15 DESC 'x' OBSOLETE )")
+    expectRoundTrip(parser, syntax)
+  })
+
+  it('should write DIT structure rules with their rule ID and superior rules', () => {
+    const rule: LDAPDITStructureRuleInterface = { type: 'ditStructureRule', ruleId: 3, name: 'orgUnitRule', names: ['orgUnitRule'], obsolete: false, form: 'orgUnitNameForm', sup: [1, 2] }
+
+    expect(serializeSchema(rule)).toBe("( 3 NAME 'orgUnitRule' FORM orgUnitNameForm SUP ( 1 2 ) )")
+  })
+
+  it('should write OIDs in their objectIdentifier macro form', () => {
+    const macroParser = new RFC4512Parser()
+    macroParser.addObjectIdentifier('MyAttrs', '1.3.6.1.4.1.99999.1')
+    const schema = macroParser.parseSchema("( MyAttrs:1 NAME 'badge' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )")
+
+    expect(serializeSchema(schema)).toBe("( MyAttrs:1 NAME 'badge' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )")
+  })
+
+  describe('round trip of the samples', () => {
+    // Some samples use OpenLDAP configuration OIDs or list an attribute in both MUST and MAY
+    const sampleParser = new RFC4512Parser({ relaxedMode: true, allowMustMayOverlap: true })
+
+    for (const [directory, type] of Object.entries(DEFINITION_SAMPLES)) {
+      for (const file of readdirSync(join(samples, directory)).filter(file => !file.startsWith('_bad-'))) {
+        it(`should round trip ${directory}/${file}`, () => {
+          expectRoundTrip(sampleParser, sampleParser.parseSchema(readFileSync(join(samples, directory, file), 'utf-8'), type))
+        })
+      }
+    }
+
+    it('should round trip olcSchemaConfig/custom.ldif', () => {
+      const reader = new OlcSchemaConfigReader()
+      const definitions = reader.read(readFileSync(join(samples, 'olcSchemaConfig/custom.ldif'), 'utf-8')).flatMap(entry => entry.definitions)
+
+      expect(definitions.length).toBeGreaterThan(0)
+      definitions.forEach(definition => expectRoundTrip(reader.parser, definition.schema))
+    })
+
+    it('should round trip schema/custom.schema', () => {
+      const reader = new SchemaFileReader()
+      const { definitions } = reader.read(readFileSync(join(samples, 'schema/custom.schema'), 'utf-8'))
+
+      expect(definitions.length).toBeGreaterThan(0)
+      definitions.forEach(definition => expectRoundTrip(reader.parser, definition.schema))
+    })
+
+    it('should round trip subschema/subschema.ldif', () => {
+      const reader = new SubschemaReader()
+      const { dns, errors, ...collections } = reader.read(readFileSync(join(samples, 'subschema/subschema.ldif'), 'utf-8'))
+
+      Object.values(collections)
+        .flat()
+        .forEach(schema => expectRoundTrip(reader.parser, schema))
+    })
+
+    it('should round trip apacheds/schema.ldif', () => {
+      const reader = new ApacheDSSchemaReader()
+      const { errors, ...collections } = reader.read(readFileSync(join(samples, 'apacheds/schema.ldif'), 'utf-8'))
+
+      Object.values(collections)
+        .flat()
+        .forEach(schema => expectRoundTrip(reader.parser, schema))
+    })
+
+    it('should serialize activeDirectory/schema.ldf to definitions holding the converted values', () => {
+      const { attributeTypes, objectClasses } = new ActiveDirectorySchemaReader().read(readFileSync(join(samples, 'activeDirectory/schema.ldf'), 'utf-8'))
+
+      // 88 classes have no kind, which the parser requires
+      for (const schema of [...attributeTypes, ...objectClasses.filter(objectClass => objectClass.objectClassType)]) {
+        expect(sampleParser.parseSchema(serializeSchema(schema), schema.type)).toMatchObject(schema)
+      }
+    })
+  })
+})
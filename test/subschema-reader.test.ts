@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'bun:test'
+import { createReadStream, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { SubschemaReader, RFC4512ParserError } from '../src'
+
+/**
+ * Test suite for SubschemaReader
+ *
+ * This test suite validates reading the LDIF dump of a subschema subentry (cn=Subschema):
+ * every definition kind is parsed and grouped, and invalid values are reported without
+ * stopping the dump.
+ */
+describe('SubschemaReader', () => {
+  const sample = readFileSync(join(__dirname, 'samples/subschema/subschema.ldif'), 'utf-8')
+
+  it('should group the definitions of the dump by kind', () => {
+    const subschema = new SubschemaReader().read(sample)
+
+    expect(subschema.dns).toEqual(['cn=Subschema'])
+    expect(subschema.ldapSyntaxes.map(syntax => syntax.desc)).toEqual(['Directory String', 'IA5 String'])
+    expect(subschema.matchingRules.map(rule => rule.name)).toEqual(['caseIgnoreMatch'])
+    expect(subschema.matchingRuleUses.map(rule => rule.applies)).toEqual([['cn', 'sn', 'o']])
+    expect(subschema.attributeTypes.map(attributeType => attributeType.name)).toEqual(['cn', 'name'])
+    expect(subschema.objectClasses.map(objectClass => objectClass.name)).toEqual(['top', 'person'])
+    expect(subschema.ditContentRules.map(rule => rule.not)).toEqual([['userPassword']])
+    expect(subschema.nameForms.map(nameForm => nameForm.oc)).toEqual(['person'])
+    expect(subschema.ditStructureRules.map(rule => rule.ruleId)).toEqual([1])
+  })
+
+  it('should parse folded values', () => {
+    const subschema = new SubschemaReader().read(sample)
+
+    expect(subschema.matchingRules[0].syntax).toBe('1.3.6.1.4.1.1466.115.121.1.15')
+    expect(subschema.attributeTypes[1].syntax).toEqual({ oid: '1.3.6.1.4.1.1466.115.121.1.15', length: 32768 })
+    expect(subschema.objectClasses[1].may).toEqual(['userPassword', 'telephoneNumber', 'seeAlso', 'description'])
+  })
+
+  it('should report invalid values without aborting the dump', () => {
+    const subschema = new SubschemaReader().read(sample)
+
+    expect(subschema.errors).toHaveLength(1)
+    expect(subschema.errors[0].attribute).toBe('attributeTypes')
+    expect(subschema.errors[0].line).toBe(23)
+    expect(subschema.errors[0].value).toBe("( 2.5.4.4 NAME ( 'sn' 'surname' ) SUP name BROKEN )")
+    expect(subschema.errors[0].error).toBeInstanceOf(RFC4512ParserError)
+  })
+
+  it('should stream every definition and error with its attribute and line', async () => {
+    const values = []
+    for await (const value of new SubschemaReader().readStream(createReadStream(join(__dirname, 'samples/subschema/subschema.ldif'), { highWaterMark: 64 }))) {
+      values.push(value)
+    }
+
+    expect(values).toHaveLength(12)
+    expect(values.every(value => value.dn === 'cn=Subschema')).toBe(true)
+    expect(values.filter(value => value.error).map(value => [value.attribute, value.line])).toEqual([['attributeTypes', 23]])
+    expect(values.find(value => value.attribute === 'matchingRules')?.schema?.type).toBe('matchingRule')
+  })
+
+  it('should match attribute names case-insensitively and ignore other entries', () => {
+    const ldif = ['dn: o=example', 'o: example', '', 'dn: cn=schema', "ATTRIBUTETYPES: ( 1.2.3.4 NAME 'first' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15 )"].join('\n')
+    const subschema = new SubschemaReader().read(ldif)
+
+    expect(subschema.dns).toEqual(['cn=schema'])
+    expect(subschema.attributeTypes).toHaveLength(1)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'bun:test'
+import { RFC4512Parser, TypeScriptGenerator } from '../src'
+
+/**
+ * Test suite for generating TypeScript interfaces of object class entries
+ *
+ * This test suite validates the interfaces written for object classes: inheritance of superior classes,
+ * required and optional properties, value types of the syntaxes, arrays and JSDoc.
+ */
+describe('TypeScriptGenerator', () => {
+  const parser = new RFC4512Parser()
+  const definitions = [
+    "( 2.5.6.0 NAME 'top' ABSTRACT MUST objectClass )",
+    "( 2.5.6.6 NAME 'person' DESC 'RFC2256: a person' SUP top STRUCTURAL MUST ( sn $ cn ) MAY ( userPassword $ description ) )",
+    "( 1.3.6.1.4.1.99999.2.1 NAME 'myEmployee' SUP person STRUCTURAL MUST ( myBadgeNumber $ description ) MAY ( myStartDate $ my-photo $ myActive ) )",
+    "( 1.3.6.1.4.1.99999.2.2 NAME 'badged' SUP top AUXILIARY MUST myBadgeNumber MAY sn )",
+    "( 1.3.6.1.4.1.99999.2.3 NAME 'badgedPerson' SUP ( person $ badged ) STRUCTURAL )",
+    "( 2.5.4.0 NAME 'objectClass' EQUALITY objectIdentifierMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.38 )",
+    "( 2.5.4.41 NAME 'name' EQUALITY caseIgnoreMatch SYNTAX 1.3.6.1.4.1.1466.115.121.1.15{32768} )",
+    "( 2.5.4.3 NAME ( 'cn' 'commonName' ) SUP name )",
+    "( 2.5.4.4 NAME ( 'sn' 'surname' ) SUP name )",
+    "( 2.5.4.13 NAME 'description' DESC 'Free text, e.g. /* notes */' SYNTAX 1.3.6.1.4.1.1466.115.121.1.15{1024} )",
+    "( 2.5.4.35 NAME 'userPassword' OBSOLETE SYNTAX 1.3.6.1.4.1.1466.115.121.1.40{128} )",
+    "( 1.3.6.1.4.1.99999.1.1 NAME 'myBadgeNumber' DESC 'Badge number' SYNTAX 1.3.6.1.4.1.1466.115.121.1.27 SINGLE-VALUE )",
+    "( 1.3.6.1.4.1.99999.1.2 NAME 'myStartDate' SYNTAX 1.3.6.1.4.1.1466.115.121.1.24 SINGLE-VALUE NO-USER-MODIFICATION USAGE directoryOperation )",
+    "( 1.3.6.1.4.1.99999.1.3 NAME 'my-photo' SYNTAX 1.3.6.1.4.1.1466.115.121.1.28 )",
+    "( 1.3.6.1.4.1.99999.1.4 NAME 'myActive' SYNTAX 1.3.6.1.4.1.1466.115.121.1.7 SINGLE-VALUE )",
+  ].map(definition => parser.parseSchema(definition))
+
+  /**
+   * Get the source of one generated interface, from its JSDoc to its closing brace
+   */
+  function interfaceSource(source: string, name: string): string {
+    return source.split('\n\n/**\n').find(part => part.includes(`export interface ${name} `))!
+  }
+
+  it('should write an interface extending its superior classes, with required MUST and optional MAY properties', () => {
+    const source = new TypeScriptGenerator().generate(definitions)
+
+    expect(interfaceSource(source, 'Person')).toContain(
+      [
+        ' * RFC2256: a person',
+        ' *',
+        ' * Object class person (2.5.6.6)',
+        ' */',
+        'export interface Person extends Top {',
+        '  sn: string[]',
+        '',
+        '  cn: string[]',
+        '',
+        '  /**',
+        '   * @deprecated',
+        '   */',
+        '  userPassword?: Uint8Array[]',
+        '',
+        '  /**',
+        '   * Free text, e.g. /* notes *\\/',
+        '   */',
+        '  description?: string[]',
+        '}',
+      ].join('\n')
+    )
+    expect(source.startsWith('/**\n * Object class top (2.5.6.0)\n */\nexport interface Top {\n  objectClass: string[]\n}\n')).toBe(true)
+  })
+
+  it('should map syntaxes to TypeScript types and write single-valued attributes without array', () => {
+    const source = interfaceSource(new TypeScriptGenerator({ binaryType: 'Buffer' }).generate(definitions), 'MyEmployee')
+
+    expect(source).toContain('  /**\n   * Badge number\n   */\n  myBadgeNumber: number\n')
+    expect(source).toContain('  readonly myStartDate?: string\n')
+    expect(source).toContain("  'my-photo'?: Buffer[]\n")
+    expect(source).toContain('  myActive?: boolean\n')
+  })
+
+  it('should only write the inherited attributes that the class requires or that its superior classes declare differently', () => {
+    const source = new TypeScriptGenerator().generate(definitions)
+
+    // description is optional in person and required in myEmployee
+    expect(interfaceSource(source, 'MyEmployee')).toContain('  description: string[]\n')
+    expect(interfaceSource(source, 'MyEmployee')).not.toContain('  cn')
+    // sn is required in person and optional in badged
+    expect(interfaceSource(source, 'BadgedPerson')).toContain('export interface BadgedPerson extends Person, Badged {\n  sn: string[]\n}')
+  })
+
+  it('should add the name suffix to the interface names', () => {
+    const source = new TypeScriptGenerator({ nameSuffix: 'Entry' }).generate(definitions)
+
+    expect(source).toContain('export interface MyEmployeeEntry extends PersonEntry {')
+    expect(source).toContain('export interface TopEntry {')
+  })
+
+  it('should report unknown attribute types', () => {
+    const orphan = parser.parseSchema("( 1.3.6.1.4.1.99999.2.4 NAME 'orphan' SUP top AUXILIARY MAY unknownAttribute )")
+
+    expect(() => new TypeScriptGenerator().generate([...definitions, orphan])).toThrow('Unknown attribute type unknownAttribute used by object class orphan')
+  })
+})